@@ -154,6 +154,294 @@ const devFiles = [
       commonjs({ extensions: ['.js', '.ts'] })
     ]
   },
+  {
+    input: 'src/plugins/Dependencies.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/Dependencies.plugin.js',
+      format: 'umd',
+      name: 'Dependencies'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/CriticalPath.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/CriticalPath.plugin.js',
+      format: 'umd',
+      name: 'CriticalPath'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/Progress.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/Progress.plugin.js',
+      format: 'umd',
+      name: 'Progress'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/Baselines.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/Baselines.plugin.js',
+      format: 'umd',
+      name: 'Baselines'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/Tooltip.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/Tooltip.plugin.js',
+      format: 'umd',
+      name: 'Tooltip'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/ContextMenu.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/ContextMenu.plugin.js',
+      format: 'umd',
+      name: 'ContextMenu'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/History.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/History.plugin.js',
+      format: 'umd',
+      name: 'History'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/KeyboardNavigation.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/KeyboardNavigation.plugin.js',
+      format: 'umd',
+      name: 'KeyboardNavigation'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/Clipboard.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/Clipboard.plugin.js',
+      format: 'umd',
+      name: 'Clipboard'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/ItemCreation.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/ItemCreation.plugin.js',
+      format: 'umd',
+      name: 'ItemCreation'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/WorkingTimeHighlight.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/WorkingTimeHighlight.plugin.js',
+      format: 'umd',
+      name: 'WorkingTimeHighlight'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/Markers.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/Markers.plugin.js',
+      format: 'umd',
+      name: 'Markers'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/ZoomToolbar.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/ZoomToolbar.plugin.js',
+      format: 'umd',
+      name: 'ZoomToolbar'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/Export.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/Export.plugin.js',
+      format: 'umd',
+      name: 'Export'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/CSV.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/CSV.plugin.js',
+      format: 'umd',
+      name: 'CSV'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/ICalendar.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/ICalendar.plugin.js',
+      format: 'umd',
+      name: 'ICalendar'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/MSProject.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/MSProject.plugin.js',
+      format: 'umd',
+      name: 'MSProject'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/Print.plugin.ts',
+    output: {
+      sourcemap: true,
+      file: 'dist/Print.plugin.js',
+      format: 'umd',
+      name: 'Print'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
   {
     input: 'src/plugins/plugins.ts',
     output: {
@@ -515,6 +803,1068 @@ const prodFiles = Array.prototype.concat(devFiles, [
     ]
   },
 
+  {
+    input: 'src/plugins/Dependencies.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Dependencies.plugin.esm.js',
+      format: 'esm',
+      name: 'Dependencies'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/Dependencies.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Dependencies.plugin.esm.min.js',
+      format: 'esm',
+      name: 'Dependencies'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/Dependencies.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Dependencies.plugin.min.js',
+      format: 'umd',
+      name: 'Dependencies'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/CriticalPath.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/CriticalPath.plugin.esm.js',
+      format: 'esm',
+      name: 'CriticalPath'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/CriticalPath.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/CriticalPath.plugin.esm.min.js',
+      format: 'esm',
+      name: 'CriticalPath'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/CriticalPath.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/CriticalPath.plugin.min.js',
+      format: 'umd',
+      name: 'CriticalPath'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/Progress.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Progress.plugin.esm.js',
+      format: 'esm',
+      name: 'Progress'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/Progress.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Progress.plugin.esm.min.js',
+      format: 'esm',
+      name: 'Progress'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/Progress.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Progress.plugin.min.js',
+      format: 'umd',
+      name: 'Progress'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/Baselines.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Baselines.plugin.esm.js',
+      format: 'esm',
+      name: 'Baselines'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/Baselines.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Baselines.plugin.esm.min.js',
+      format: 'esm',
+      name: 'Baselines'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/Baselines.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Baselines.plugin.min.js',
+      format: 'umd',
+      name: 'Baselines'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/Tooltip.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Tooltip.plugin.esm.js',
+      format: 'esm',
+      name: 'Tooltip'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/Tooltip.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Tooltip.plugin.esm.min.js',
+      format: 'esm',
+      name: 'Tooltip'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/Tooltip.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Tooltip.plugin.min.js',
+      format: 'umd',
+      name: 'Tooltip'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/ContextMenu.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/ContextMenu.plugin.esm.js',
+      format: 'esm',
+      name: 'ContextMenu'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/ContextMenu.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/ContextMenu.plugin.esm.min.js',
+      format: 'esm',
+      name: 'ContextMenu'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/ContextMenu.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/ContextMenu.plugin.min.js',
+      format: 'umd',
+      name: 'ContextMenu'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/History.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/History.plugin.esm.js',
+      format: 'esm',
+      name: 'History'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/History.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/History.plugin.esm.min.js',
+      format: 'esm',
+      name: 'History'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/History.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/History.plugin.min.js',
+      format: 'umd',
+      name: 'History'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/KeyboardNavigation.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/KeyboardNavigation.plugin.esm.js',
+      format: 'esm',
+      name: 'KeyboardNavigation'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/KeyboardNavigation.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/KeyboardNavigation.plugin.esm.min.js',
+      format: 'esm',
+      name: 'KeyboardNavigation'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/KeyboardNavigation.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/KeyboardNavigation.plugin.min.js',
+      format: 'umd',
+      name: 'KeyboardNavigation'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/Clipboard.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Clipboard.plugin.esm.js',
+      format: 'esm',
+      name: 'Clipboard'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/Clipboard.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Clipboard.plugin.esm.min.js',
+      format: 'esm',
+      name: 'Clipboard'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/Clipboard.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Clipboard.plugin.min.js',
+      format: 'umd',
+      name: 'Clipboard'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/ItemCreation.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/ItemCreation.plugin.esm.js',
+      format: 'esm',
+      name: 'ItemCreation'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/ItemCreation.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/ItemCreation.plugin.esm.min.js',
+      format: 'esm',
+      name: 'ItemCreation'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/ItemCreation.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/ItemCreation.plugin.min.js',
+      format: 'umd',
+      name: 'ItemCreation'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/WorkingTimeHighlight.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/WorkingTimeHighlight.plugin.esm.js',
+      format: 'esm',
+      name: 'WorkingTimeHighlight'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/WorkingTimeHighlight.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/WorkingTimeHighlight.plugin.esm.min.js',
+      format: 'esm',
+      name: 'WorkingTimeHighlight'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/WorkingTimeHighlight.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/WorkingTimeHighlight.plugin.min.js',
+      format: 'umd',
+      name: 'WorkingTimeHighlight'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/Markers.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Markers.plugin.esm.js',
+      format: 'esm',
+      name: 'Markers'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/Markers.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Markers.plugin.esm.min.js',
+      format: 'esm',
+      name: 'Markers'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/Markers.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Markers.plugin.min.js',
+      format: 'umd',
+      name: 'Markers'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/ZoomToolbar.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/ZoomToolbar.plugin.esm.js',
+      format: 'esm',
+      name: 'ZoomToolbar'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/ZoomToolbar.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/ZoomToolbar.plugin.esm.min.js',
+      format: 'esm',
+      name: 'ZoomToolbar'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/ZoomToolbar.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/ZoomToolbar.plugin.min.js',
+      format: 'umd',
+      name: 'ZoomToolbar'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/Export.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Export.plugin.esm.js',
+      format: 'esm',
+      name: 'Export'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/Export.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Export.plugin.esm.min.js',
+      format: 'esm',
+      name: 'Export'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/Export.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Export.plugin.min.js',
+      format: 'umd',
+      name: 'Export'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/CSV.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/CSV.plugin.esm.js',
+      format: 'esm',
+      name: 'CSV'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/CSV.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/CSV.plugin.esm.min.js',
+      format: 'esm',
+      name: 'CSV'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/CSV.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/CSV.plugin.min.js',
+      format: 'umd',
+      name: 'CSV'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/ICalendar.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/ICalendar.plugin.esm.js',
+      format: 'esm',
+      name: 'ICalendar'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/ICalendar.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/ICalendar.plugin.esm.min.js',
+      format: 'esm',
+      name: 'ICalendar'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/ICalendar.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/ICalendar.plugin.min.js',
+      format: 'umd',
+      name: 'ICalendar'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/MSProject.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/MSProject.plugin.esm.js',
+      format: 'esm',
+      name: 'MSProject'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/MSProject.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/MSProject.plugin.esm.min.js',
+      format: 'esm',
+      name: 'MSProject'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/MSProject.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/MSProject.plugin.min.js',
+      format: 'umd',
+      name: 'MSProject'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
+  {
+    input: 'src/plugins/Print.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Print.plugin.esm.js',
+      format: 'esm',
+      name: 'Print'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] })
+    ]
+  },
+  {
+    input: 'src/plugins/Print.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Print.plugin.esm.min.js',
+      format: 'esm',
+      name: 'Print'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+  {
+    input: 'src/plugins/Print.plugin.ts',
+    output: {
+      sourcemap: false,
+      file: 'dist/Print.plugin.min.js',
+      format: 'umd',
+      name: 'Print'
+    },
+    plugins: [
+      typescript({ target: 'es6' }),
+      resolve({
+        browser: true
+      }),
+      commonjs({ extensions: ['.js', '.ts'] }),
+      terser({
+        //keep_classnames: true,
+        //keep_fnames: true,
+        output: { comments: false }
+      })
+    ]
+  },
+
   {
     input: 'src/plugins/plugins.ts',
     output: {
@@ -9,9 +9,11 @@
 
 import defaultConfigFn from '../default-config';
 import TimeApi from './Time';
+import DependenciesApi from './Dependencies';
+import WorkingTimeApi from './WorkingTime';
 import State from 'deep-state-observer';
 import dayjs from 'dayjs';
-import { Config, Period, ChartInternalTime } from '../types';
+import { Config, Period, ChartInternalTime, Item } from '../types';
 import { mergeDeep } from '@neuronet.io/vido/helpers';
 const lib = 'gantt-schedule-timeline-calendar';
 
@@ -64,6 +66,7 @@ export function getInternalApi(state) {
   let unsubscribes = [];
   let vido;
   const iconsCache = {};
+  const time = new TimeApi(state);
   const api = {
     name: lib,
     debug: false,
@@ -99,6 +102,10 @@ export function getInternalApi(state) {
       return actions.slice();
     },
 
+    isMilestone(item) {
+      return item.type === 'milestone';
+    },
+
     isItemInViewport(item, left, right) {
       return (
         (item.time.start >= left && item.time.start < right) ||
@@ -126,7 +133,8 @@ export function getInternalApi(state) {
           items: []
         };
         if (typeof row.height !== 'number') {
-          row.height = $state.config.list.rowHeight;
+          // stacked row starts with one lane - it grows when lanes are calculated
+          row.height = this.isRowStacked(row) ? this.getRowLaneHeight(row) : $state.config.list.rowHeight;
         }
         if (typeof row.expanded !== 'boolean') {
           row.expanded = false;
@@ -177,6 +185,86 @@ export function getInternalApi(state) {
       return this.fastTree(rowParents, tree);
     },
 
+    /**
+     * Calculate progress of the rows (own items and items of all children) weighted by items duration
+     * row._internal.progress and row._internal.progressTime (time span of those items)
+     * stay undefined when there is no item with progress inside
+     * @param {object} node tree map node
+     * @returns {object} summary of the node
+     */
+    calculateRowsProgress(node) {
+      const summary = { duration: 0, done: 0, hasProgress: false, start: Infinity, end: -Infinity };
+      for (const item of node._internal.items) {
+        const duration = item.time.end - item.time.start;
+        summary.duration += duration;
+        if (item.time.start < summary.start) summary.start = item.time.start;
+        if (item.time.end > summary.end) summary.end = item.time.end;
+        if (typeof item.progress === 'number') {
+          summary.done += (duration * Math.min(Math.max(item.progress, 0), 100)) / 100;
+          summary.hasProgress = true;
+        }
+      }
+      for (const child of node._internal.children) {
+        const childSummary = this.calculateRowsProgress(child);
+        summary.duration += childSummary.duration;
+        summary.done += childSummary.done;
+        summary.hasProgress = summary.hasProgress || childSummary.hasProgress;
+        if (childSummary.start < summary.start) summary.start = childSummary.start;
+        if (childSummary.end > summary.end) summary.end = childSummary.end;
+      }
+      if (summary.hasProgress) {
+        node._internal.progress = summary.duration ? (summary.done / summary.duration) * 100 : 0;
+        node._internal.progressTime = { start: summary.start, end: summary.end };
+      } else {
+        delete node._internal.progress;
+        delete node._internal.progressTime;
+      }
+      return summary;
+    },
+
+    /**
+     * Calculate time span of all children items for rows with summary option
+     * row._internal.summary stays undefined when there are no children items
+     * @param {object} node tree map node
+     * @returns {object|undefined} time span of the node items and children items
+     */
+    calculateRowsSummary(node) {
+      let childrenTime;
+      for (const child of node._internal.children) {
+        const time = this.calculateRowsSummary(child);
+        if (!time) continue;
+        if (!childrenTime) {
+          childrenTime = { ...time };
+          continue;
+        }
+        if (time.start < childrenTime.start) childrenTime.start = time.start;
+        if (time.end > childrenTime.end) childrenTime.end = time.end;
+      }
+      if (node.summary && childrenTime) {
+        node._internal.summary = { ...childrenTime };
+      } else {
+        delete node._internal.summary;
+      }
+      let time = childrenTime;
+      for (const item of node._internal.items) {
+        if (!time) {
+          time = { start: item.time.start, end: item.time.end };
+          continue;
+        }
+        if (item.time.start < time.start) time.start = item.time.start;
+        if (item.time.end > time.end) time.end = item.time.end;
+      }
+      return time;
+    },
+
+    getDescendantItems(row, items = []) {
+      for (const child of row._internal.children) {
+        items.push(...child._internal.items);
+        this.getDescendantItems(child, items);
+      }
+      return items;
+    },
+
     getFlatTreeMapById(treeMap, flatTreeMapById = {}) {
       for (const child of treeMap._internal.children) {
         flatTreeMapById[child.id] = child;
@@ -229,6 +317,56 @@ export function getInternalApi(state) {
       return rowsWithParentsExpanded;
     },
 
+    /**
+     * Get position of the row among rows with expanded parents (starting from 1) - used as aria-rowindex
+     * @param {string} rowId
+     * @returns {number} 0 if row is hidden inside collapsed parent
+     */
+    getRowIndex(rowId: string) {
+      const rows = state.get('_internal.list.rowsWithParentsExpanded') || [];
+      return rows.findIndex(row => row && row.id === rowId) + 1;
+    },
+
+    isRowStacked(row): boolean {
+      return typeof row.stacking === 'boolean' ? row.stacking : !!state.get('config.list.stacking');
+    },
+
+    getRowLaneHeight(row): number {
+      return typeof row.laneHeight === 'number' ? row.laneHeight : state.get('config.list.rowHeight');
+    },
+
+    /**
+     * Put overlapping items of the row into separate lanes - each item goes to the first lane that is free at its start
+     * @param {object} row row with items inside row._internal.items
+     * @returns {object} lanes - lane index by item id
+     */
+    calculateRowLanes(row) {
+      const lanes = {};
+      const lanesEnd = [];
+      const items = [...row._internal.items].sort((a, b) => a.time.start - b.time.start || a.time.end - b.time.end);
+      for (const item of items) {
+        let lane = lanesEnd.findIndex(end => end < item.time.start);
+        if (lane === -1) lane = lanesEnd.length;
+        lanesEnd[lane] = item.time.end;
+        lanes[item.id] = lane;
+      }
+      return lanes;
+    },
+
+    /**
+     * Get height of the stacked row - one lane at least
+     * @param {object} row
+     * @param {object} lanes
+     * @returns {number}
+     */
+    getStackedRowHeight(row, lanes) {
+      let count = 1;
+      for (const itemId in lanes) {
+        if (lanes[itemId] + 1 > count) count = lanes[itemId] + 1;
+      }
+      return count * this.getRowLaneHeight(row);
+    },
+
     getRowsHeight(rows) {
       let height = 0;
       for (const row of rows) {
@@ -361,7 +499,11 @@ export function getInternalApi(state) {
       return Math.round(scrollTop);
     },
 
-    time: new TimeApi(state),
+    time,
+
+    dependencies: new DependenciesApi(state),
+
+    workingTime: new WorkingTimeApi(state, time),
 
     /**
      * Get scrollbar height - compute it from element
@@ -395,6 +537,96 @@ export function getInternalApi(state) {
       });
     },
 
+    /**
+     * Set zoom keeping time under the anchor at the same place
+     * @param {number} zoom
+     * @param {number} anchorTime time that should stay in place - time at the anchor position by default
+     * @param {number} anchorX anchor position in pixels from the left side of the chart - center by default
+     * @returns {number} zoom
+     */
+    setZoom(zoom: number, anchorTime?: number, anchorX?: number): number {
+      const chartWidth = state.get('_internal.chart.dimensions.width');
+      const time = state.get('_internal.chart.time');
+      if (anchorX === undefined) anchorX = chartWidth / 2;
+      if (anchorTime === undefined) anchorTime = this.time.viewPixelOffsetToGlobalTime(anchorX, time);
+      state.update('config.chart.time', configTime => {
+        configTime.zoom = zoom;
+        configTime.calculatedZoomMode = false;
+        return configTime;
+      });
+      const zoomed = state.get('_internal.chart.time');
+      const scrollLeft = this.time.getAnchoredScrollLeft(anchorTime, anchorX, zoomed);
+      state.update('config.scroll.left', this.limitScrollLeft(zoomed.totalViewDurationPx, chartWidth, scrollLeft));
+      return zoom;
+    },
+
+    zoomIn(step = 1): number {
+      return this.setZoom(state.get('config.chart.time.zoom') - step);
+    },
+
+    zoomOut(step = 1): number {
+      return this.setZoom(state.get('config.chart.time.zoom') + step);
+    },
+
+    /**
+     * Zoom so that the time range fills whole chart width
+     * @param {number} from
+     * @param {number} to
+     * @returns {number} zoom
+     */
+    zoomToRange(from: number, to: number): number {
+      const chartWidth = state.get('_internal.chart.dimensions.width');
+      if (!chartWidth || to <= from) return state.get('config.chart.time.zoom');
+      return this.setZoom(this.time.getZoomForRange(from, to, chartWidth), from, 0);
+    },
+
+    /**
+     * Zoom so that all of the items (all chart items by default) are visible
+     * @param {array} items
+     * @returns {number} zoom
+     */
+    zoomToFit(items?: Item[]): number {
+      if (!items) items = Object.values(state.get('config.chart.items'));
+      if (!items.length) return state.get('config.chart.time.zoom');
+      const from = Math.min(...items.map(item => item.time.start));
+      const to = Math.max(...items.map(item => item.time.end + 1));
+      return this.zoomToRange(from, to);
+    },
+
+    /**
+     * Zoom to the default zoom of the period from main calendar level keeping center time
+     * @param {string} period
+     * @returns {number} zoom
+     */
+    zoomToPeriod(period: Period): number {
+      const mainLevel = state.get('config.chart.calendar.levels').find(level => level.main);
+      const formats = mainLevel ? mainLevel.formats.filter(format => format.period === period) : [];
+      const format = formats.find(format => format.default) || formats[0];
+      if (!format) {
+        this.log(`There is no '${period}' period inside main calendar level`);
+        return state.get('config.chart.time.zoom');
+      }
+      return this.setZoom(format.zoomTo);
+    },
+
+    /**
+     * Create components from config.slots of the component - they are rendered before and after its content
+     * @param {string} name component (action) name
+     * @param {object} vido
+     * @param {object} props
+     * @returns {object} slots components
+     */
+    getSlots(name: string, vido, props = {}) {
+      const slots = { before: [], after: [] };
+      const config = state.get(`config.slots.${name}`) || {};
+      for (const placement in slots) {
+        for (const component of config[placement] || []) {
+          slots[placement].push(vido.createComponent(component, props));
+        }
+      }
+      return slots;
+    },
+
     /**
      * Get grid blocks that are under specified rectangle
      *
@@ -432,6 +664,7 @@ export function getInternalApi(state) {
         unsubscribe();
       }
       unsubscribes = [];
+      api.workingTime.destroy();
       if (api.debug) {
         // @ts-ignore
         delete window.state;
@@ -0,0 +1,319 @@
+/**
+ * Gantt-Schedule-Timeline-Calendar
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0
+ */
+
+import {
+  Items,
+  Item,
+  ItemTime,
+  ItemsTimes,
+  ItemDependency,
+  DependencyLink,
+  DependencyType,
+  RescheduleMode,
+  RescheduleResult,
+  ItemSchedule,
+  CriticalPathResult
+} from '../types';
+
+export interface LinksById {
+  [itemId: string]: DependencyLink[];
+}
+
+export const dependencyTypes: DependencyType[] = ['FS', 'SS', 'FF', 'SF'];
+
+export default class DependenciesApi {
+  private state: any;
+
+  constructor(state) {
+    this.state = state;
+  }
+
+  private normalize(dependency: string | ItemDependency, defaultType: DependencyType): ItemDependency {
+    if (typeof dependency !== 'object') {
+      return { id: String(dependency), type: defaultType, lag: 0 };
+    }
+    return {
+      id: String(dependency.id),
+      type: dependencyTypes.includes(dependency.type) ? dependency.type : defaultType,
+      lag: +dependency.lag || 0
+    };
+  }
+
+  /**
+   * Get all links between items
+   * item.dependant - items that depend on current item (successors)
+   * item.linkedWith - items that current item depends on (predecessors)
+   *
+   * @param {object} items
+   * @param {string} defaultType type of link when not specified
+   * @returns {array} links
+   */
+  public getLinks(items: Items = this.state.get('config.chart.items'), defaultType: DependencyType = 'FS') {
+    const links: DependencyLink[] = [];
+    const existing = {};
+    const add = (fromId: string, toId: string, dependency: ItemDependency) => {
+      const key = `${fromId}:${toId}`;
+      if (fromId === toId || existing[key] || !items[fromId] || !items[toId]) return;
+      existing[key] = true;
+      links.push({ fromId, toId, type: dependency.type, lag: dependency.lag });
+    };
+    for (const itemId in items) {
+      const item: Item = items[itemId];
+      if (Array.isArray(item.dependant)) {
+        for (const dependency of item.dependant) {
+          const normalized = this.normalize(dependency, defaultType);
+          add(item.id, normalized.id, normalized);
+        }
+      }
+      if (Array.isArray(item.linkedWith)) {
+        for (const dependency of item.linkedWith) {
+          const normalized = this.normalize(dependency, defaultType);
+          add(normalized.id, item.id, normalized);
+        }
+      }
+    }
+    return links;
+  }
+
+  /**
+   * Group links by item id
+   * @param {array} links
+   * @param {string} by 'fromId' for successors or 'toId' for predecessors
+   * @returns {object} links by item id
+   */
+  public groupLinks(links: DependencyLink[], by: 'fromId' | 'toId') {
+    const grouped: LinksById = {};
+    for (const link of links) {
+      if (grouped[link[by]] === undefined) grouped[link[by]] = [];
+      grouped[link[by]].push(link);
+    }
+    return grouped;
+  }
+
+  /**
+   * Find cycle between specified items
+   * @param {string[]} itemsIds
+   * @param {object} successors links grouped by fromId
+   * @returns {string[]} items ids that form a cycle or empty array
+   */
+  public findCycle(itemsIds: string[], successors: LinksById): string[] {
+    const visiting = 1,
+      visited = 2;
+    const marks = {};
+    const path = [];
+    const nodes = {};
+    for (const itemId of itemsIds) nodes[itemId] = true;
+    const visit = (itemId: string): string[] => {
+      marks[itemId] = visiting;
+      path.push(itemId);
+      for (const link of successors[itemId] || []) {
+        if (!nodes[link.toId]) continue;
+        if (marks[link.toId] === visiting) return path.slice(path.indexOf(link.toId));
+        if (marks[link.toId] === undefined) {
+          const cycle = visit(link.toId);
+          if (cycle.length) return cycle;
+        }
+      }
+      path.pop();
+      marks[itemId] = visited;
+      return [];
+    };
+    for (const itemId of itemsIds) {
+      if (marks[itemId] === undefined) {
+        const cycle = visit(itemId);
+        if (cycle.length) return cycle;
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Get earliest start of an item that satisfies link
+   * item end is inclusive (like in ItemMovement plugin) so finish-to-start link adds 1ms
+   * @param {object} link
+   * @param {object} from predecessor time
+   * @param {number} duration successor duration
+   * @returns {number} start time
+   */
+  public getLinkStart(link: DependencyLink, from: ItemTime, duration: number): number {
+    switch (link.type) {
+      case 'SS':
+        return from.start + link.lag;
+      case 'FF':
+        return from.end + link.lag - duration;
+      case 'SF':
+        return from.start + link.lag - duration;
+      default:
+        return from.end + 1 + link.lag;
+    }
+  }
+
+  /**
+   * Reschedule items that depend on changed items
+   * 'push' moves successors forward only when needed, 'push-pull' also pulls them back
+   *
+   * @param {object} changed new times of changed items
+   * @param {string} mode
+   * @param {object} items
+   * @returns {object} times of all changed and rescheduled items and cycle if found
+   */
+  public reschedule(
+    changed: ItemsTimes,
+    mode: RescheduleMode = 'push',
+    items: Items = this.state.get('config.chart.items')
+  ): RescheduleResult {
+    const links = this.getLinks(items);
+    const times: ItemsTimes = { ...changed };
+    if (!links.length) return { times, cycle: [] };
+    const successors = this.groupLinks(links, 'fromId');
+    const predecessors = this.groupLinks(links, 'toId');
+    const nodes = Object.keys(changed);
+    const included = {};
+    for (const itemId of nodes) included[itemId] = true;
+    for (let i = 0; i < nodes.length; i++) {
+      for (const link of successors[nodes[i]] || []) {
+        if (!included[link.toId]) {
+          included[link.toId] = true;
+          nodes.push(link.toId);
+        }
+      }
+    }
+    const cycle = this.findCycle(nodes, successors);
+    if (cycle.length) return { times, cycle };
+
+    const incoming = {};
+    for (const itemId of nodes) {
+      incoming[itemId] = (predecessors[itemId] || []).filter(link => included[link.fromId]).length;
+    }
+    const queue = nodes.filter(itemId => incoming[itemId] === 0);
+    while (queue.length) {
+      const itemId = queue.shift();
+      if (changed[itemId] === undefined && predecessors[itemId]) {
+        const time = items[itemId].time;
+        const duration = time.end - time.start;
+        let start = Number.MIN_SAFE_INTEGER;
+        for (const link of predecessors[itemId]) {
+          const linkStart = this.getLinkStart(link, times[link.fromId] || items[link.fromId].time, duration);
+          if (linkStart > start) start = linkStart;
+        }
+        if (start > time.start || (mode === 'push-pull' && start !== time.start)) {
+          times[itemId] = { start, end: start + duration };
+        }
+      }
+      for (const link of successors[itemId] || []) {
+        if (--incoming[link.toId] === 0) queue.push(link.toId);
+      }
+    }
+    return { times, cycle: [] };
+  }
+
+  /**
+   * Get items in topological order (predecessors first)
+   * @param {string[]} itemsIds
+   * @param {object} successors links grouped by fromId
+   * @param {object} predecessors links grouped by toId
+   * @returns {string[]} items ids
+   */
+  public sortItems(itemsIds: string[], successors: LinksById, predecessors: LinksById): string[] {
+    const incoming = {};
+    for (const itemId of itemsIds) {
+      incoming[itemId] = (predecessors[itemId] || []).length;
+    }
+    const sorted = itemsIds.filter(itemId => incoming[itemId] === 0);
+    for (let i = 0; i < sorted.length; i++) {
+      for (const link of successors[sorted[i]] || []) {
+        if (--incoming[link.toId] === 0) sorted.push(link.toId);
+      }
+    }
+    return sorted;
+  }
+
+  /**
+   * Get latest finish of the predecessor that does not delay successor
+   * @param {object} link
+   * @param {object} to successor latest schedule
+   * @param {number} duration predecessor duration
+   * @returns {number} finish time
+   */
+  public getLinkFinish(link: DependencyLink, to: ItemSchedule, duration: number): number {
+    switch (link.type) {
+      case 'SS':
+        return to.latestStart - link.lag + duration;
+      case 'FF':
+        return to.latestFinish - link.lag;
+      case 'SF':
+        return to.latestFinish - link.lag + duration;
+      default:
+        return to.latestStart - 1 - link.lag;
+    }
+  }
+
+  /**
+   * Compute earliest / latest start and finish, total float and critical path
+   * items cannot start earlier than their current start time
+   *
+   * @param {object} items
+   * @returns {object} schedule of all items and critical path
+   */
+  public getCriticalPath(items: Items = this.state.get('config.chart.items')): CriticalPathResult {
+    const result: CriticalPathResult = { items: {}, criticalPath: [], projectFinish: 0, cycle: [] };
+    const itemsIds = Object.keys(items);
+    if (!itemsIds.length) return result;
+    const links = this.getLinks(items);
+    const successors = this.groupLinks(links, 'fromId');
+    const predecessors = this.groupLinks(links, 'toId');
+    result.cycle = this.findCycle(itemsIds, successors);
+    if (result.cycle.length) return result;
+    const sorted = this.sortItems(itemsIds, successors, predecessors);
+
+    for (const itemId of sorted) {
+      const time = items[itemId].time;
+      const duration = time.end - time.start;
+      let earliestStart = time.start;
+      for (const link of predecessors[itemId] || []) {
+        const from = result.items[link.fromId];
+        const linkStart = this.getLinkStart(
+          link,
+          { start: from.earliestStart, end: from.earliestFinish },
+          duration
+        );
+        if (linkStart > earliestStart) earliestStart = linkStart;
+      }
+      result.items[itemId] = {
+        earliestStart,
+        earliestFinish: earliestStart + duration,
+        latestStart: 0,
+        latestFinish: 0,
+        totalFloat: 0,
+        critical: false
+      };
+      if (earliestStart + duration > result.projectFinish) result.projectFinish = earliestStart + duration;
+    }
+
+    for (let i = sorted.length - 1; i >= 0; i--) {
+      const itemId = sorted[i];
+      const schedule = result.items[itemId];
+      const duration = schedule.earliestFinish - schedule.earliestStart;
+      let latestFinish = result.projectFinish;
+      for (const link of successors[itemId] || []) {
+        const linkFinish = this.getLinkFinish(link, result.items[link.toId], duration);
+        if (linkFinish < latestFinish) latestFinish = linkFinish;
+      }
+      schedule.latestFinish = latestFinish;
+      schedule.latestStart = latestFinish - duration;
+      schedule.totalFloat = schedule.latestStart - schedule.earliestStart;
+      schedule.critical = schedule.totalFloat <= 0;
+    }
+
+    result.criticalPath = sorted
+      .filter(itemId => result.items[itemId].critical)
+      .sort((a, b) => result.items[a].earliestStart - result.items[b].earliestStart);
+    return result;
+  }
+}
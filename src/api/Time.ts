@@ -19,9 +19,11 @@ import {
 } from '../types';
 import advancedFormat from 'dayjs/plugin/advancedFormat';
 import weekOfYear from 'dayjs/plugin/weekOfYear';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
 
 dayjs.extend(advancedFormat);
 dayjs.extend(weekOfYear);
+dayjs.extend(customParseFormat);
 
 export default class TimeApi {
   private locale: Locale;
@@ -39,8 +41,13 @@ export default class TimeApi {
     dayjs.locale(this.locale, null, true);
   }
 
-  public date(time) {
+  /**
+   * @param {any} time
+   * @param {string} format format of the time string (parsing)
+   */
+  public date(time?, format?: string) {
     const _dayjs = this.utcMode ? dayjs.utc : dayjs;
+    if (time && format) return _dayjs(time, format).locale(this.locale.name);
     return time ? _dayjs(time).locale(this.locale.name) : _dayjs().locale(this.locale.name);
   }
 
@@ -116,4 +123,29 @@ export default class TimeApi {
     if (withCompensation) return viewPixelOffset + xCompensation;
     return viewPixelOffset;
   }
+
+  public viewPixelOffsetToGlobalTime(pixels: number, time: ChartInternalTime = this.state.get('_internal.chart.time')) {
+    return time.leftGlobal + pixels * time.timePerPixel;
+  }
+
+  /**
+   * Zoom is a power of 2 of time per pixel
+   * @param {number} from
+   * @param {number} to
+   * @param {number} width
+   * @returns {number} zoom at which the time range fills the width
+   */
+  public getZoomForRange(from: number, to: number, width: number): number {
+    return Math.log((to - from) / width) / Math.log(2);
+  }
+
+  /**
+   * @param {number} anchorTime
+   * @param {number} anchorX pixels from the left side of the chart
+   * @param {object} time zoomed time
+   * @returns {number} scroll left (not limited) at which anchor time is at anchor position
+   */
+  public getAnchoredScrollLeft(anchorTime: number, anchorX: number, time: ChartInternalTime): number {
+    return (anchorTime - anchorX * time.timePerPixel - time.finalFrom) / time.timePerPixel;
+  }
 }
@@ -0,0 +1,309 @@
+/**
+ * Gantt-Schedule-Timeline-Calendar
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0
+ */
+
+import { Dayjs } from 'dayjs';
+import TimeApi from './Time';
+import { WorkingHours, WorkingWeek, WorkingTimeException, Item } from '../types';
+
+/**
+ * Working interval - unlike item times end is exclusive
+ */
+export interface WorkingInterval {
+  start: number;
+  end: number;
+}
+
+interface WorkingRules {
+  week: WorkingWeek;
+  days: Map<number, WorkingHours[]>;
+}
+
+const workDay: WorkingHours[] = [{ from: '08:00', to: '16:00' }];
+export const defaultWorkingWeek: WorkingWeek = {
+  0: [],
+  1: workDay,
+  2: workDay,
+  3: workDay,
+  4: workDay,
+  5: workDay,
+  6: []
+};
+
+// how far next / previous working time is searched (when calendar has no working time at all)
+const maxSearchDays = 731;
+
+export default class WorkingTimeApi {
+  private state: any;
+  private time: TimeApi;
+  private calendar: WorkingRules | null = null;
+  private rows = new Map<string, WorkingRules>();
+  private unsubscribes: (() => void)[] = [];
+
+  constructor(state, time: TimeApi) {
+    this.state = state;
+    this.time = time;
+    this.unsubscribes.push(
+      state.subscribe('config.chart.workingTime', () => {
+        this.calendar = null;
+        this.rows.clear();
+      }),
+      state.subscribe('config.list.rows', () => this.rows.clear())
+    );
+  }
+
+  public destroy() {
+    for (const unsubscribe of this.unsubscribes) {
+      unsubscribe();
+    }
+    this.unsubscribes = [];
+  }
+
+  /**
+   * Without config.chart.workingTime all the time is working time
+   * @returns {boolean}
+   */
+  public isEnabled(): boolean {
+    return !!this.state.get('config.chart.workingTime');
+  }
+
+  private getDay(time: number | string): Dayjs {
+    return this.time.date(time).startOf('day');
+  }
+
+  private setTime(day: Dayjs, hour: string): number {
+    const [hours, minutes] = String(hour)
+      .split(':')
+      .map(Number);
+    return day
+      .hour(hours || 0)
+      .minute(minutes || 0)
+      .valueOf();
+  }
+
+  /**
+   * Put hours of every day from exceptions into days map
+   * @param {Map} days
+   * @param {array} exceptions
+   */
+  private addExceptions(days: Map<number, WorkingHours[]>, exceptions: WorkingTimeException[] = []) {
+    for (const exception of exceptions) {
+      const last = this.getDay(exception.to !== undefined ? exception.to : exception.from).valueOf();
+      let day = this.getDay(exception.from);
+      for (let i = 0; i < maxSearchDays && day.valueOf() <= last; i++) {
+        days.set(day.valueOf(), exception.hours || []);
+        day = day.add(1, 'day');
+      }
+    }
+  }
+
+  /**
+   * Rules are computed once - row exceptions take precedence over calendar exceptions and holidays
+   * @param {string} rowId
+   * @returns {object} rules
+   */
+  private getRules(rowId?: string): WorkingRules {
+    if (this.calendar === null) {
+      const workingTime = this.state.get('config.chart.workingTime') || {};
+      const days = new Map<number, WorkingHours[]>();
+      for (const holiday of workingTime.holidays || []) {
+        days.set(this.getDay(holiday).valueOf(), []);
+      }
+      this.addExceptions(days, workingTime.exceptions);
+      this.calendar = { week: workingTime.week || defaultWorkingWeek, days };
+    }
+    if (rowId === undefined || rowId === null) return this.calendar;
+    if (this.rows.has(rowId)) return this.rows.get(rowId);
+    const row = this.state.get(`config.list.rows.${rowId}`);
+    let rules = this.calendar;
+    if (row && row.workingTime && Array.isArray(row.workingTime.exceptions) && row.workingTime.exceptions.length) {
+      rules = { week: this.calendar.week, days: new Map(this.calendar.days) };
+      this.addExceptions(rules.days, row.workingTime.exceptions);
+    }
+    this.rows.set(rowId, rules);
+    return rules;
+  }
+
+  private getDayHours(day: Dayjs, rules: WorkingRules): WorkingHours[] {
+    const hours = rules.days.get(day.valueOf());
+    return hours !== undefined ? hours : rules.week[day.day()] || [];
+  }
+
+  /**
+   * Get sorted and merged working intervals of the day
+   * Hours that end before they start (night shifts like 22:00 - 06:00) are split at midnight -
+   * the part after midnight belongs to the next day
+   * @param {Dayjs} day start of the day
+   * @param {object} rules
+   * @returns {array} intervals
+   */
+  private getDayIntervals(day: Dayjs, rules: WorkingRules): WorkingInterval[] {
+    const nextDay = day.add(1, 'day');
+    const previousDay = day.subtract(1, 'day');
+    const intervals: WorkingInterval[] = [];
+    for (const hours of this.getDayHours(day, rules)) {
+      const start = this.setTime(day, hours.from);
+      const end = this.setTime(day, hours.to);
+      if (end > start) {
+        intervals.push({ start, end });
+      } else if (end < start) {
+        intervals.push({ start, end: nextDay.valueOf() });
+      }
+    }
+    for (const hours of this.getDayHours(previousDay, rules)) {
+      if (this.setTime(previousDay, hours.to) >= this.setTime(previousDay, hours.from)) continue;
+      const end = this.setTime(day, hours.to);
+      if (end > day.valueOf()) intervals.push({ start: day.valueOf(), end });
+    }
+    intervals.sort((a, b) => a.start - b.start);
+    const merged: WorkingInterval[] = [];
+    for (const interval of intervals) {
+      const last = merged[merged.length - 1];
+      if (last && last.end >= interval.start) {
+        last.end = Math.max(last.end, interval.end);
+      } else {
+        merged.push(interval);
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Get working intervals between two times
+   * @param {number} from
+   * @param {number} to exclusive
+   * @param {string} rowId row with its own exceptions (vacations)
+   * @returns {array} intervals
+   */
+  public getWorkingIntervals(from: number, to: number, rowId?: string): WorkingInterval[] {
+    if (to <= from) return [];
+    if (!this.isEnabled()) return [{ start: from, end: to }];
+    const rules = this.getRules(rowId);
+    const result: WorkingInterval[] = [];
+    for (let day = this.getDay(from); day.valueOf() < to; day = day.add(1, 'day')) {
+      for (const interval of this.getDayIntervals(day, rules)) {
+        const start = Math.max(interval.start, from);
+        const end = Math.min(interval.end, to);
+        if (end <= start) continue;
+        const last = result[result.length - 1];
+        // night shifts are continued from the previous day
+        if (last && last.end >= start) {
+          last.end = Math.max(last.end, end);
+        } else {
+          result.push({ start, end });
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get non working intervals between two times
+   * @param {number} from
+   * @param {number} to exclusive
+   * @param {string} rowId
+   * @returns {array} intervals
+   */
+  public getNonWorkingIntervals(from: number, to: number, rowId?: string): WorkingInterval[] {
+    const result: WorkingInterval[] = [];
+    let start = from;
+    for (const interval of this.getWorkingIntervals(from, to, rowId)) {
+      if (interval.start > start) result.push({ start, end: interval.start });
+      start = interval.end;
+    }
+    if (start < to) result.push({ start, end: to });
+    return result;
+  }
+
+  public isWorkingTime(time: number, rowId?: string): boolean {
+    return this.getWorkingIntervals(time, time + 1, rowId).length > 0;
+  }
+
+  /**
+   * Get working time (in milliseconds) between two times
+   * @param {number} from
+   * @param {number} to exclusive
+   * @param {string} rowId
+   * @returns {number}
+   */
+  public getWorkingDuration(from: number, to: number, rowId?: string): number {
+    return this.getWorkingIntervals(from, to, rowId).reduce((sum, interval) => sum + interval.end - interval.start, 0);
+  }
+
+  /**
+   * Item end is inclusive so 1ms is added to it
+   * @param {object} item
+   * @returns {number}
+   */
+  public getItemWorkingDuration(item: Item): number {
+    return this.getWorkingDuration(item.time.start, item.time.end + 1, item.rowId);
+  }
+
+  /**
+   * Get first working moment at or after the time
+   * @param {number} time
+   * @param {string} rowId
+   * @returns {number} time itself when there is no working time in next two years
+   */
+  public nextWorkingTime(time: number, rowId?: string): number {
+    if (!this.isEnabled()) return time;
+    const rules = this.getRules(rowId);
+    let day = this.getDay(time);
+    for (let i = 0; i < maxSearchDays; i++) {
+      for (const interval of this.getDayIntervals(day, rules)) {
+        if (interval.end > time) return Math.max(interval.start, time);
+      }
+      day = day.add(1, 'day');
+    }
+    return time;
+  }
+
+  /**
+   * Get end of working time at or before the time (useful as exclusive end)
+   * @param {number} time
+   * @param {string} rowId
+   * @returns {number} time itself when there is no working time in previous two years
+   */
+  public previousWorkingTime(time: number, rowId?: string): number {
+    if (!this.isEnabled()) return time;
+    const rules = this.getRules(rowId);
+    let day = this.getDay(time);
+    for (let i = 0; i < maxSearchDays; i++) {
+      const intervals = this.getDayIntervals(day, rules);
+      for (let index = intervals.length - 1; index >= 0; index--) {
+        if (intervals[index].start < time) return Math.min(intervals[index].end, time);
+      }
+      day = day.subtract(1, 'day');
+    }
+    return time;
+  }
+
+  /**
+   * Add working duration to the time skipping non working time
+   * @param {number} time
+   * @param {number} duration milliseconds of working time
+   * @param {string} rowId
+   * @returns {number} exclusive end
+   */
+  public addWorkingTime(time: number, duration: number, rowId?: string): number {
+    if (!this.isEnabled()) return time + duration;
+    const rules = this.getRules(rowId);
+    let remaining = duration;
+    let day = this.getDay(time);
+    for (let i = 0; i < maxSearchDays; i++) {
+      for (const interval of this.getDayIntervals(day, rules)) {
+        if (interval.end <= time) continue;
+        const start = Math.max(interval.start, time);
+        if (remaining <= interval.end - start) return start + remaining;
+        remaining -= interval.end - start;
+      }
+      day = day.add(1, 'day');
+    }
+    return time + duration;
+  }
+}
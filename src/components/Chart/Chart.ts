@@ -24,6 +24,10 @@ export default function Chart(vido, props = {}) {
   onDestroy(Calendar.destroy);
   const Timeline = createComponent(ChartTimelineComponent);
   onDestroy(Timeline.destroy);
+  const slots = api.getSlots(componentName, vido);
+  onDestroy(() => {
+    for (const slot of [...slots.before, ...slots.after]) slot.destroy();
+  });
 
   let className, classNameScroll, classNameScrollInner, scrollElement, scrollInnerElement;
   const componentActions = api.getActions(componentName);
@@ -86,12 +90,15 @@ export default function Chart(vido, props = {}) {
         state.update('config.scroll.left', newScrollLeft); // will trigger scrollbar to move which will trigger scroll event
       } else if (event.ctrlKey && wheel.y) {
         event.preventDefault();
-        state.update('config.chart.time.zoom', currentZoom => {
-          if (wheel.y < 0) {
-            return currentZoom - 1;
-          }
-          return currentZoom + 1;
-        });
+        // time under the pointer stays in place
+        const zoom = state.get('config.chart.time.zoom') + (wheel.y < 0 ? -1 : 1);
+        const timeline = state.get('_internal.elements.chart-timeline');
+        if (!timeline) {
+          api.setZoom(zoom);
+          return;
+        }
+        const anchorX = event.clientX - timeline.getBoundingClientRect().left - api.getCompensationX();
+        api.setZoom(zoom, api.time.viewPixelOffsetToGlobalTime(anchorX), anchorX);
       } else if (wheel.x) {
         const currentScrollLeft = state.get('config.scroll.left');
         state.update(
@@ -160,10 +167,11 @@ export default function Chart(vido, props = {}) {
     wrapper(
       html`
         <div class=${className} data-actions=${actions} @wheel=${onWheel} @scroll=${onScroll}>
-          ${Calendar.html()}${Timeline.html()}
+          ${slots.before.map(slot => slot.html())}${Calendar.html()}${Timeline.html()}
           <div class=${classNameScroll} data-actions=${scrollActions} @scroll=${onScroll}>
             <div class=${classNameScrollInner} style="height: 1px" data-actions=${scrollAreaActions} />
           </div>
+          ${slots.after.map(slot => slot.html())}
         </div>
       `,
       { vido, props: {}, templateProps }
@@ -70,6 +70,7 @@ export default function ChartTimelineGridRow(vido, props) {
   let shouldDetach = false;
   const detach = new Detach(() => shouldDetach);
 
+  let rowIndex = 0;
   const rowsBlocksComponents = [];
   onChange(function onPropsChange(changedProps, options) {
     if (options.leave || changedProps.row === undefined) {
@@ -80,6 +81,7 @@ export default function ChartTimelineGridRow(vido, props) {
     }
     shouldDetach = false;
     props = changedProps;
+    rowIndex = api.getRowIndex(props.row.id);
     reuseComponents(rowsBlocksComponents, props.blocks, block => block, GridBlockComponent);
     styleMap.setStyle({});
     styleMap.style.height = props.row.height + 'px';
@@ -117,7 +119,14 @@ export default function ChartTimelineGridRow(vido, props) {
   return templateProps => {
     return wrapper(
       html`
-        <div detach=${detach} class=${className} data-actions=${actions} style=${styleMap}>
+        <div
+          detach=${detach}
+          class=${className}
+          data-actions=${actions}
+          style=${styleMap}
+          role="row"
+          aria-rowindex=${rowIndex}
+        >
           ${rowsBlocksComponents.map(r => r.html())}
         </div>
       `,
@@ -44,6 +44,7 @@ class BindElementAction {
 interface Props {
   row: any;
   time: any;
+  selected?: boolean;
 }
 
 const ChartTimelineGridRowBlock = (vido, props: Props) => {
@@ -115,7 +116,15 @@ const ChartTimelineGridRowBlock = (vido, props: Props) => {
   return templateProps => {
     return wrapper(
       html`
-        <div detach=${detach} class=${className} data-actions=${actions} style=${styleMap}></div>
+        <div
+          detach=${detach}
+          class=${className}
+          data-actions=${actions}
+          style=${styleMap}
+          role="gridcell"
+          tabindex="-1"
+          aria-selected=${String(!!props.selected)}
+        ></div>
       `,
       { props, vido, templateProps }
     );
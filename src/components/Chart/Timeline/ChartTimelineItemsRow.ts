@@ -44,10 +44,15 @@ const ChartTimelineItemsRow = (vido, props) => {
   onDestroy(state.subscribe('config.components.ChartTimelineItemsRowItem', value => (ItemComponent = value)));
 
   let itemsPath = `_internal.flatTreeMapById.${props.row.id}._internal.items`;
-  let rowSub, itemsSub;
+  let rowSub, itemsSub, progressSub;
 
   const itemComponents = [],
-    styleMap = new StyleMap({ width: '', height: '' }, true);
+    styleMap = new StyleMap({ width: '', height: '' }, true),
+    progressStyleMap = new StyleMap({ width: '', left: '' }),
+    progressFillStyleMap = new StyleMap({ width: '0%' }),
+    summaryStyleMap = new StyleMap({ width: '', left: '' }),
+    summaryActionProps = { row: props.row, summary: undefined, left: 0, width: 0, api, state };
+  let progress, summary;
 
   let shouldDetach = false;
   const detach = new Detach(() => shouldDetach);
@@ -63,8 +68,45 @@ const ChartTimelineItemsRow = (vido, props) => {
     }
     styleMap.style.height = props.row.height + 'px';
     styleMap.style['--row-height'] = props.row.height + 'px';
+    updateSummary(xCompensation);
+    updateProgress(xCompensation);
   };
 
+  /**
+   * Summary bar spans all children items of the row
+   * @param {number} xCompensation
+   */
+  function updateSummary(xCompensation: number) {
+    summary = props.row.summary ? props.row._internal.summary : undefined;
+    summaryActionProps.row = props.row;
+    summaryActionProps.summary = summary;
+    if (!summary) return;
+    const left = api.time.globalTimeToViewPixelOffset(summary.start) + xCompensation;
+    const width = Math.max((summary.end - summary.start) / state.get('_internal.chart.time.timePerPixel'), 0);
+    summaryStyleMap.style.left = left + 'px';
+    summaryStyleMap.style.width = width + 'px';
+    summaryActionProps.left = left;
+    summaryActionProps.width = width;
+  }
+
+  /**
+   * Rows with children show aggregated progress of the children items as a bar spanning those items
+   * (inside summary bar when row has one)
+   * @param {number} xCompensation
+   */
+  function updateProgress(xCompensation: number) {
+    const internal = props.row._internal;
+    progress = internal && internal.children.length ? internal.progress : undefined;
+    if (progress === undefined) return;
+    progressFillStyleMap.style.width = progress + '%';
+    if (summary) return;
+    const time = internal.progressTime;
+    const left = api.time.globalTimeToViewPixelOffset(time.start) + xCompensation;
+    const width = Math.max((time.end - time.start) / state.get('_internal.chart.time.timePerPixel'), 0);
+    progressStyleMap.style.left = left + 'px';
+    progressStyleMap.style.width = width + 'px';
+  }
+
   function updateRow(row) {
     itemsPath = `_internal.flatTreeMapById.${row.id}._internal.items`;
     if (typeof rowSub === 'function') {
@@ -73,6 +115,9 @@ const ChartTimelineItemsRow = (vido, props) => {
     if (typeof itemsSub === 'function') {
       itemsSub();
     }
+    if (typeof progressSub === 'function') {
+      progressSub();
+    }
     rowSub = state.subscribe('_internal.chart', value => {
       if (value === undefined) {
         shouldDetach = true;
@@ -91,6 +136,18 @@ const ChartTimelineItemsRow = (vido, props) => {
       updateDom();
       update();
     });
+    progressSub = state.subscribeAll(
+      [
+        `_internal.flatTreeMapById.${row.id}._internal.summary`,
+        `_internal.flatTreeMapById.${row.id}._internal.progress`
+      ],
+      () => {
+        if (shouldDetach) return;
+        updateDom();
+        update();
+      },
+      { bulk: true }
+    );
   }
 
   /**
@@ -112,15 +169,19 @@ const ChartTimelineItemsRow = (vido, props) => {
   onDestroy(() => {
     itemsSub();
     rowSub();
+    progressSub();
     itemComponents.forEach(item => item.destroy());
   });
 
   const componentName = 'chart-timeline-items-row';
   const componentActions = api.getActions(componentName);
-  let className;
+  let className, progressClassName, progressFillClassName, summaryClassName;
   onDestroy(
     state.subscribe('config.classNames', () => {
       className = api.getClass(componentName, props);
+      progressClassName = api.getClass(componentName + '-progress', props);
+      progressFillClassName = api.getClass(componentName + '-progress-fill', props);
+      summaryClassName = api.getClass(componentName + '-summary', props);
       update();
     })
   );
@@ -128,11 +189,36 @@ const ChartTimelineItemsRow = (vido, props) => {
   componentActions.push(BindElementAction);
 
   const actions = Actions.create(componentActions, actionProps);
+  const summaryActions = Actions.create(api.getActions(componentName + '-summary'), summaryActionProps);
 
   return templateProps => {
     return wrapper(
       html`
-        <div detach=${detach} class=${className} data-actions=${actions} style=${styleMap}>
+        <div
+          detach=${detach}
+          class=${className}
+          data-actions=${actions}
+          style=${styleMap}
+          role="row"
+          aria-rowindex=${api.getRowIndex(props.row.id)}
+        >
+          ${summary
+            ? html`
+                <div class=${summaryClassName} data-actions=${summaryActions} style=${summaryStyleMap}>
+                  ${progress !== undefined
+                    ? html`
+                        <div class=${progressFillClassName} style=${progressFillStyleMap}></div>
+                      `
+                    : ''}
+                </div>
+              `
+            : progress !== undefined
+            ? html`
+                <div class=${progressClassName} style=${progressStyleMap}>
+                  <div class=${progressFillClassName} style=${progressFillStyleMap}></div>
+                </div>
+              `
+            : ''}
           ${itemComponents.map(i => i.html())}
         </div>
       `,
@@ -40,10 +40,13 @@ export default function ChartTimelineItemsRowItem(vido, props) {
     itemWidthPx = 0,
     leave = false,
     cutLeft = false,
-    cutRight = false;
+    cutRight = false,
+    milestone = false,
+    hasProgress = false;
   const styleMap = new StyleMap({ width: '', height: '', left: '' }),
     leftCutStyleMap = new StyleMap({ 'margin-left': '0px' }),
     rightCutStyleMap = new StyleMap({ 'margin-right': '0px' }),
+    progressStyleMap = new StyleMap({ width: '0%' }),
     actionProps = {
       item: props.item,
       row: props.row,
@@ -57,21 +60,31 @@ export default function ChartTimelineItemsRowItem(vido, props) {
   function updateItem() {
     if (leave) return;
     const time = state.get('_internal.chart.time');
+    milestone = api.isMilestone(props.item);
     itemLeftPx = api.time.globalTimeToViewPixelOffset(props.item.time.start);
     itemLeftPx = Math.round(itemLeftPx * 10) * 0.1;
-    itemWidthPx = (props.item.time.end - props.item.time.start) / time.timePerPixel;
-    itemWidthPx -= state.get('config.chart.spacing') || 0;
-    if (itemWidthPx) {
-      itemWidthPx = Math.round(itemWidthPx * 10) * 0.1;
+    if (milestone) {
+      // milestone has the same size at every zoom level and is centered at its start time
+      itemWidthPx = state.get('config.chart.milestoneSize');
+      itemLeftPx -= itemWidthPx / 2;
+    } else {
+      itemWidthPx = (props.item.time.end - props.item.time.start) / time.timePerPixel;
+      itemWidthPx -= state.get('config.chart.spacing') || 0;
+      if (itemWidthPx) {
+        itemWidthPx = Math.round(itemWidthPx * 10) * 0.1;
+      }
     }
-    if (props.item.time.start < time.leftGlobal) {
+    if (milestone) {
+      leftCutStyleMap.style['margin-left'] = '0px';
+      cutLeft = false;
+    } else if (props.item.time.start < time.leftGlobal) {
       leftCutStyleMap.style['margin-left'] = (time.leftGlobal - props.item.time.start) / time.timePerPixel + 'px';
       cutLeft = true;
     } else {
       leftCutStyleMap.style['margin-left'] = '0px';
       cutLeft = false;
     }
-    if (props.item.time.end > time.rightGlobal) {
+    if (!milestone && props.item.time.end > time.rightGlobal) {
       rightCutStyleMap.style['margin-right'] = (props.item.time.end - time.rightGlobal) / time.timePerPixel + 'px';
       cutRight = true;
     } else {
@@ -93,6 +106,18 @@ export default function ChartTimelineItemsRowItem(vido, props) {
       styleMap.style.width = oldWidth;
       styleMap.style.left = oldLeft;
     }
+    // item of the stacked row is placed inside its lane
+    const rowLanes = state.get('_internal.list.lanes')[props.row.id];
+    const lane = rowLanes !== undefined ? rowLanes[props.item.id] : undefined;
+    const laneHeight = lane !== undefined ? api.getRowLaneHeight(props.row) : props.row.height;
+    if (lane !== undefined) {
+      styleMap.style.top = lane * laneHeight + 'px';
+      styleMap.style['--row-height'] = laneHeight + 'px';
+    }
+    if (milestone) {
+      styleMap.style.height = itemWidthPx + 'px';
+      styleMap.style['margin-top'] = (laneHeight - itemWidthPx) / 2 + 'px';
+    }
     const rows = state.get('config.list.rows');
     for (const parentId of props.row._internal.parents) {
       const parent = rows[parentId];
@@ -103,6 +128,10 @@ export default function ChartTimelineItemsRowItem(vido, props) {
     if (currentRowItemsStyle) styleMap.setStyle({ ...styleMap.style, ...currentRowItemsStyle });
     const currentStyle = props?.item?.style;
     if (currentStyle) styleMap.setStyle({ ...styleMap.style, ...currentStyle });
+    hasProgress = !milestone && typeof props.item.progress === 'number';
+    if (hasProgress) {
+      progressStyleMap.style.width = Math.min(Math.max(props.item.progress, 0), 100) + '%';
+    }
     actionProps.left = itemLeftPx + xCompensation;
     actionProps.width = itemWidthPx;
     update();
@@ -141,25 +170,66 @@ export default function ChartTimelineItemsRowItem(vido, props) {
   onChange(onPropsChange);
 
   const componentActions = api.getActions(componentName);
-  let className, labelClassName;
+  let className, labelClassName, milestoneClassName, progressClassName;
   onDestroy(
     state.subscribe('config.classNames', () => {
       className = api.getClass(componentName, props);
       labelClassName = api.getClass(componentName + '-label', props);
+      milestoneClassName = api.getClass(componentName + '-milestone', props);
+      progressClassName = api.getClass(componentName + '-progress', props);
       update();
     })
   );
 
-  onDestroy(state.subscribeAll(['_internal.chart.time', 'config.scroll.compensation.x'], updateItem));
+  onDestroy(
+    state.subscribeAll(
+      ['_internal.chart.time', 'config.scroll.compensation.x', 'config.chart.milestoneSize', '_internal.list.lanes'],
+      updateItem
+    )
+  );
 
   componentActions.push(BindElementAction);
   const actions = Actions.create(componentActions, actionProps);
   const detach = new Detach(() => shouldDetach);
 
   return templateProps => {
+    if (milestone) {
+      return wrapper(
+        html`
+          <div
+            detach=${detach}
+            class=${className + ' ' + className + '--milestone'}
+            data-actions=${actions}
+            style=${styleMap}
+            role="gridcell"
+            tabindex="-1"
+            aria-selected=${String(!!props.item.selected)}
+          >
+            <div class=${milestoneClassName}></div>
+            <div class=${labelClassName}>
+              ${props.item.isHtml ? unsafeHTML(props.item.label) : props.item.label}
+            </div>
+          </div>
+        `,
+        { vido, props, templateProps }
+      );
+    }
     return wrapper(
       html`
-        <div detach=${detach} class=${className} data-actions=${actions} style=${styleMap}>
+        <div
+          detach=${detach}
+          class=${className}
+          data-actions=${actions}
+          style=${styleMap}
+          role="gridcell"
+          tabindex="-1"
+          aria-selected=${String(!!props.item.selected)}
+        >
+          ${hasProgress
+            ? html`
+                <div class=${progressClassName} style=${progressStyleMap}></div>
+              `
+            : ''}
           ${cutLeft ? cutterLeft : ''}
           <div class=${labelClassName}>
             ${props.item.isHtml ? unsafeHTML(props.item.label) : props.item.label}
@@ -81,6 +81,9 @@ export default function ListColumnRow(vido, props) {
     true
   );
   let rowSub, colSub;
+  let rowIndex = 0,
+    level = 1,
+    expanded = '';
   const ListColumnRowExpander = createComponent(ListColumnRowExpanderComponent, { row });
 
   const onPropsChange = (changedProps, options) => {
@@ -103,7 +106,13 @@ export default function ListColumnRow(vido, props) {
     rowPath = `_internal.flatTreeMapById.${rowId}`;
     colPath = `config.list.columns.data.${columnId}`;
     rowSub = state.subscribeAll(
-      [rowPath, colPath, 'config.list.expander'],
+      [
+        rowPath,
+        colPath,
+        'config.list.expander',
+        `config.list.rows.${rowId}.expanded`,
+        '_internal.list.rowsWithParentsExpanded;'
+      ],
       bulk => {
         column = state.get(colPath);
         row = state.get(rowPath);
@@ -113,6 +122,9 @@ export default function ListColumnRow(vido, props) {
           return;
         }
         if (column === undefined || row === undefined) return;
+        rowIndex = api.getRowIndex(row.id);
+        level = row._internal.parents.length + 1;
+        expanded = row._internal.children.length ? String(row.expanded) : '';
         const expander = state.get('config.list.expander');
         // @ts-ignore
         styleMap.setStyle({}); // we must reset style because of user specified styling
@@ -218,9 +230,18 @@ export default function ListColumnRow(vido, props) {
   return templateProps =>
     wrapper(
       html`
-        <div detach=${detach} class=${className} style=${styleMap} data-actions=${actions}>
+        <div
+          detach=${detach}
+          class=${className}
+          style=${styleMap}
+          data-actions=${actions}
+          role="row"
+          aria-rowindex=${rowIndex}
+          aria-level=${level}
+          aria-expanded=${expanded}
+        >
           ${column.expander ? ListColumnRowExpander.html() : null}
-          <div class=${className + '-content'}>
+          <div class=${className + '-content'} role="gridcell">
             ${column.isHTML ? getHtml() : getText()}
           </div>
         </div>
@@ -89,9 +89,23 @@ export default function ListColumnRowExpanderToggle(vido, props) {
     }
   }
 
+  /**
+   * Toggle with keyboard when focused
+   * @param {KeyboardEvent} ev
+   */
+  function onKeyDown(ev: KeyboardEvent) {
+    if (ev.key !== 'Enter' && ev.key !== ' ') return;
+    ev.preventDefault();
+    toggle();
+  }
+
+  function isChild() {
+    return props.row?._internal?.children?.length === 0;
+  }
+
   const getIcon = () => {
     if (iconChild) {
-      if (props.row?._internal?.children?.length === 0) {
+      if (isChild()) {
         return html`
           <img width="16" height="16" class=${classNameChild} src=${iconChild} />
         `;
@@ -112,7 +126,16 @@ export default function ListColumnRowExpanderToggle(vido, props) {
   return templateProps =>
     wrapper(
       html`
-        <div class=${className} data-action=${actions} @click=${toggle}>
+        <div
+          class=${className}
+          data-action=${actions}
+          @click=${toggle}
+          @keydown=${onKeyDown}
+          role="button"
+          tabindex="-1"
+          aria-expanded=${String(expanded)}
+          aria-hidden=${String(isChild())}
+        >
           ${cache(getIcon())}
         </div>
       `,
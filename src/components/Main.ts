@@ -48,9 +48,14 @@ export default function Main(vido, props = {}) {
   onDestroy(List.destroy);
   const Chart = createComponent(ChartComponent);
   onDestroy(Chart.destroy);
+  const slots = api.getSlots('main', vido, props);
+  onDestroy(() => {
+    for (const slot of [...slots.before, ...slots.after]) slot.destroy();
+  });
 
   onDestroy(() => {
     componentSubs.forEach(unsub => unsub());
+    api.workingTime.destroy();
   });
 
   let wrapper;
@@ -62,7 +67,8 @@ export default function Main(vido, props = {}) {
     verticalScrollStyleMap = new StyleMap({}),
     verticalScrollAreaStyleMap = new StyleMap({});
   let verticalScrollBarElement;
-  let rowsHeight = 0;
+  let rowsHeight = 0,
+    rowsCount = 0;
   let resizerActive = false;
 
   /**
@@ -145,6 +151,76 @@ export default function Main(vido, props = {}) {
     state.subscribeAll(['config.list.rows.*.parentId', 'config.chart.items.*.rowId'], generateTree, { bulk: true })
   );
 
+  /**
+   * Calculate rows progress and summary time from children items
+   */
+  function calculateRowsSummary() {
+    const treeMap = state.get('_internal.treeMap');
+    if (!treeMap || !treeMap._internal) return;
+    api.calculateRowsProgress(treeMap);
+    api.calculateRowsSummary(treeMap);
+    state.update('_internal.flatTreeMapById', flatTreeMapById => flatTreeMapById);
+  }
+  onDestroy(
+    state.subscribeAll(
+      [
+        '_internal.treeMap;',
+        'config.chart.items.*.time',
+        'config.chart.items.*.progress',
+        'config.list.rows.*.summary'
+      ],
+      calculateRowsSummary,
+      { bulk: true }
+    )
+  );
+
+  /**
+   * Calculate lanes of stacked rows and grow their height to fit all lanes
+   */
+  function calculateRowsLanes() {
+    const flatTreeMapById = state.get('_internal.flatTreeMapById');
+    const configRows = state.get('config.list.rows');
+    const previousLanes = state.get('_internal.list.lanes') || {};
+    const lanes = {};
+    const heights = {};
+    for (const rowId in configRows) {
+      const row = configRows[rowId];
+      if (!flatTreeMapById[rowId]) continue;
+      if (api.isRowStacked(row)) {
+        lanes[rowId] = api.calculateRowLanes(flatTreeMapById[rowId]);
+        const height = api.getStackedRowHeight(row, lanes[rowId]);
+        if (row.height !== height) heights[rowId] = height;
+      } else if (previousLanes[rowId] !== undefined && row.height !== api.getRowLaneHeight(row)) {
+        // stacking was turned off - bring back height of one lane
+        heights[rowId] = api.getRowLaneHeight(row);
+      }
+    }
+    state.update('_internal.list.lanes', lanes);
+    if (Object.keys(heights).length) {
+      state.update(
+        'config.list.rows',
+        rows => {
+          for (const rowId in heights) rows[rowId].height = heights[rowId];
+          return rows;
+        },
+        { only: ['*.height'] }
+      );
+    }
+  }
+  onDestroy(
+    state.subscribeAll(
+      [
+        '_internal.treeMap;',
+        'config.chart.items.*.time',
+        'config.list.stacking',
+        'config.list.rows.*.stacking',
+        'config.list.rows.*.laneHeight'
+      ],
+      calculateRowsLanes,
+      { bulk: true }
+    )
+  );
+
   function prepareExpanded() {
     const configRows = state.get('config.list.rows');
     const rowsWithParentsExpanded = api.getRowsFromIds(
@@ -156,6 +232,7 @@ export default function Main(vido, props = {}) {
       configRows
     );
     rowsHeight = api.getRowsHeight(rowsWithParentsExpanded);
+    rowsCount = rowsWithParentsExpanded.length;
     state.update('_internal.list.rowsHeight', rowsHeight);
     state.update('_internal.list.rowsWithParentsExpanded', rowsWithParentsExpanded);
     update();
@@ -168,6 +245,7 @@ export default function Main(vido, props = {}) {
     )
   );
 
+  let visibleRowsHeights = [];
   /**
    * Generate visible rows
    */
@@ -182,14 +260,16 @@ export default function Main(vido, props = {}) {
     if (visibleRows.length !== currentVisibleRows.length) {
       shouldUpdate = true;
     } else if (visibleRows.length) {
+      // rows are the same objects so heights are compared with the ones from previous update (stacked rows grow)
       shouldUpdate = visibleRows.some((row, index) => {
         if (typeof currentVisibleRows[index] === 'undefined') {
           return true;
         }
-        return row.id !== currentVisibleRows[index].id;
+        return row.id !== currentVisibleRows[index].id || row.height !== visibleRowsHeights[index];
       });
     }
     if (shouldUpdate) {
+      visibleRowsHeights = visibleRows.map(row => row.height);
       state.update('_internal.list.visibleRows', visibleRows);
     }
     const visibleItems = [];
@@ -659,8 +739,11 @@ export default function Main(vido, props = {}) {
           @scroll=${onScroll}
           @wheel=${onScroll}
           data-actions=${mainActions}
+          role="treegrid"
+          aria-rowcount=${rowsCount}
+          aria-multiselectable="true"
         >
-          ${List.html()}${Chart.html()}
+          ${slots.before.map(slot => slot.html())}${List.html()}${Chart.html()}
           <div
             class=${classNameVerticalScroll}
             style=${verticalScrollStyleMap}
@@ -670,6 +753,7 @@ export default function Main(vido, props = {}) {
           >
             <div style=${verticalScrollAreaStyleMap} data-actions=${verticalScrollAreaActions} />
           </div>
+          ${slots.after.map(slot => slot.html())}
         </div>
       `,
       { props, vido, templateProps }
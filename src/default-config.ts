@@ -49,6 +49,7 @@ export const actionNames = [
   'chart-timeline-grid-row-block',
   'chart-timeline-items',
   'chart-timeline-items-row',
+  'chart-timeline-items-row-summary',
   'chart-timeline-items-row-item'
 ];
 
@@ -158,6 +159,7 @@ function defaultConfig(): Config {
     list: {
       rows: {},
       rowHeight: 40,
+      stacking: false,
       columns: {
         percent: 100,
         resizer: {
@@ -422,7 +424,8 @@ function defaultConfig(): Config {
         }
       },
       items: {},
-      spacing: 1
+      spacing: 1,
+      milestoneSize: 20
     },
     slots,
     classNames: {},
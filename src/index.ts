@@ -27,6 +27,7 @@ function GSTC(options) {
     list: {
       expandedHeight: 0,
       visibleRows: [],
+      lanes: {},
       rows: {},
       width: 0
     },
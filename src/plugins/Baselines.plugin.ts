@@ -0,0 +1,239 @@
+/**
+ * Baselines plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import { Action } from '@neuronet.io/vido/vido.esm';
+import { ItemsTimes } from '../types';
+
+export interface Baseline {
+  name: string;
+  created: number;
+  items: ItemsTimes;
+}
+
+export interface Baselines {
+  [name: string]: Baseline;
+}
+
+export interface Slippage {
+  start: number;
+  end: number;
+}
+
+export interface SlippageResult {
+  items: { [itemId: string]: Slippage };
+  rows: { [rowId: string]: Slippage };
+}
+
+export interface BaselinesApi {
+  save: (name: string) => Baseline;
+  remove: (name: string) => void;
+  show: (name: string | null) => void;
+  getCurrent: () => string | null;
+  getBaselines: () => Baselines;
+  getSlippage: (name?: string) => SlippageResult;
+}
+
+export interface Options {
+  baselines?: Baselines;
+  current?: string | null;
+  getApi?: (api: BaselinesApi) => void;
+}
+
+export default function Baselines(options: Options = {}) {
+  let state, api;
+  const defaultOptions: Options = {
+    baselines: {},
+    current: null,
+    getApi(api) {}
+  };
+  options = { ...defaultOptions, ...options };
+  const pluginPath = 'config.plugin.Baselines';
+
+  /**
+   * Save current items times as baseline (existing baseline with the same name will be overwritten)
+   * @param {string} name
+   * @returns {object} baseline
+   */
+  function save(name: string): Baseline {
+    const items = state.get('config.chart.items');
+    const baseline: Baseline = { name, created: Date.now(), items: {} };
+    for (const itemId in items) {
+      baseline.items[itemId] = { start: items[itemId].time.start, end: items[itemId].time.end };
+    }
+    state.update(`${pluginPath}.baselines`, baselines => {
+      baselines[name] = baseline;
+      return baselines;
+    });
+    return baseline;
+  }
+
+  function remove(name: string) {
+    if (state.get(`${pluginPath}.current`) === name) {
+      show(null);
+    }
+    state.update(`${pluginPath}.baselines`, baselines => {
+      delete baselines[name];
+      return baselines;
+    });
+  }
+
+  /**
+   * Show baseline under the items
+   * @param {string|null} name null hides baselines
+   */
+  function show(name: string | null) {
+    if (name !== null && state.get(`${pluginPath}.baselines`)[name] === undefined) {
+      api.log(`Baselines: there is no baseline named '${name}'`);
+      return;
+    }
+    state.update(`${pluginPath}.current`, name);
+  }
+
+  function getBaseline(name: string = state.get(`${pluginPath}.current`)): Baseline | undefined {
+    if (name === null) return;
+    return state.get(`${pluginPath}.baselines`)[name];
+  }
+
+  /**
+   * Get start and end slippage (current time - baseline time) in milliseconds
+   * rows slippage is computed from row items and items of all children that exists inside baseline
+   * @param {string} name baseline name - currently shown by default
+   * @returns {object} slippage by item id and by row id
+   */
+  function getSlippage(name?: string): SlippageResult {
+    const result: SlippageResult = { items: {}, rows: {} };
+    const baseline = getBaseline(name);
+    if (!baseline) return result;
+    const items = state.get('config.chart.items');
+    for (const itemId in baseline.items) {
+      if (items[itemId] === undefined) continue;
+      result.items[itemId] = {
+        start: items[itemId].time.start - baseline.items[itemId].start,
+        end: items[itemId].time.end - baseline.items[itemId].end
+      };
+    }
+    const rowsItems = {};
+    for (const itemId in result.items) {
+      const row = state.get(`_internal.flatTreeMapById.${items[itemId].rowId}`);
+      if (!row) continue;
+      for (const rowId of [...row._internal.parents, row.id]) {
+        if (rowsItems[rowId] === undefined) rowsItems[rowId] = [];
+        rowsItems[rowId].push(itemId);
+      }
+    }
+    for (const rowId in rowsItems) {
+      let start = Infinity,
+        end = -Infinity,
+        baselineStart = Infinity,
+        baselineEnd = -Infinity;
+      for (const itemId of rowsItems[rowId]) {
+        start = Math.min(start, items[itemId].time.start);
+        end = Math.max(end, items[itemId].time.end);
+        baselineStart = Math.min(baselineStart, baseline.items[itemId].start);
+        baselineEnd = Math.max(baselineEnd, baseline.items[itemId].end);
+      }
+      result.rows[rowId] = { start: start - baselineStart, end: end - baselineEnd };
+    }
+    return result;
+  }
+
+  /**
+   * Baselines action - renders baseline bars of the row items
+   */
+  class BaselinesAction extends Action {
+    private container: HTMLElement;
+    private data;
+    private rowId: string;
+    private unsub: () => void;
+
+    constructor(element: HTMLElement, data) {
+      super();
+      this.data = data;
+      this.container = document.createElement('div');
+      this.container.classList.add(api.getClass('chart-timeline-items-row-baselines'));
+      element.insertAdjacentElement('beforeend', this.container);
+      this.subscribe();
+    }
+
+    subscribe() {
+      if (this.unsub) this.unsub();
+      this.rowId = this.data.row.id;
+      this.unsub = state.subscribeAll(
+        [
+          '_internal.chart.time',
+          'config.scroll.compensation.x',
+          `${pluginPath}.current`,
+          `${pluginPath}.baselines`,
+          `_internal.flatTreeMapById.${this.rowId}._internal.items`
+        ],
+        () => this.render(),
+        { bulk: true }
+      );
+    }
+
+    update(element: HTMLElement, data) {
+      this.data = data;
+      if (data.row.id !== this.rowId) {
+        this.subscribe();
+      } else {
+        this.render();
+      }
+    }
+
+    render() {
+      const baseline = getBaseline();
+      const row = state.get(`_internal.flatTreeMapById.${this.rowId}`);
+      this.container.textContent = '';
+      if (!baseline || !row) {
+        return;
+      }
+      const time = state.get('_internal.chart.time');
+      const xCompensation = api.getCompensationX();
+      const className = api.getClass('chart-timeline-items-row-baseline');
+      for (const item of row._internal.items) {
+        const baselineTime = baseline.items[item.id];
+        if (baselineTime === undefined) continue;
+        if (!api.isItemInViewport({ time: baselineTime }, time.leftGlobal, time.rightGlobal)) continue;
+        const left = api.time.globalTimeToViewPixelOffset(baselineTime.start) + xCompensation;
+        const width = Math.max((baselineTime.end - baselineTime.start) / time.timePerPixel, 2);
+        // item ids come from user data so they are set as properties - not as html
+        const bar = document.createElement('div');
+        bar.classList.add(className);
+        bar.dataset.itemId = item.id;
+        bar.style.left = left + 'px';
+        bar.style.width = width + 'px';
+        this.container.appendChild(bar);
+      }
+    }
+
+    destroy() {
+      this.unsub();
+      this.container.remove();
+    }
+  }
+
+  return function initialize(vido) {
+    state = vido.state;
+    api = vido.api;
+    state.update(pluginPath, { baselines: { ...options.baselines }, current: options.current });
+    state.update('config.actions.chart-timeline-items-row', actions => {
+      actions.push(BaselinesAction);
+      return actions;
+    });
+    options.getApi({
+      save,
+      remove,
+      show,
+      getCurrent: () => state.get(`${pluginPath}.current`),
+      getBaselines: () => state.get(`${pluginPath}.baselines`),
+      getSlippage
+    });
+  };
+}
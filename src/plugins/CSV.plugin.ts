@@ -0,0 +1,372 @@
+/**
+ * CSV plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import { Row, Rows, Item, Items } from '../types';
+
+export interface ImportError {
+  file: 'rows' | 'items';
+  line: number;
+  column?: string;
+  message: string;
+}
+
+export interface ImportResult {
+  rows: Rows;
+  items: Items;
+  errors: ImportError[];
+}
+
+export interface CSVApi {
+  exportRows: () => string;
+  exportItems: () => string;
+  parse: (rowsCSV: string, itemsCSV?: string) => ImportResult;
+  import: (rowsCSV: string, itemsCSV?: string) => ImportResult;
+}
+
+export interface Options {
+  separator?: string;
+  dateFormat?: string;
+  bom?: boolean;
+  escapeFormulas?: boolean;
+  onImportError?: (errors: ImportError[]) => void;
+  getApi?: (api: CSVApi) => void;
+}
+
+interface CSVRecord {
+  line: number;
+  values: string[];
+}
+
+interface Field {
+  name: string;
+  property: string;
+  get: (row: Row) => string;
+}
+
+const itemsFields = ['id', 'rowId', 'label', 'start', 'end', 'progress'];
+
+// spreadsheets treat cells starting with these characters as formulas (values already escaped are escaped again)
+const formulaRegex = /^'*[=+\-@\t\r]/;
+const escapedFormulaRegex = /^'+[=+\-@\t\r]/;
+
+/**
+ * Parse csv text (quoted values can contain separators, quotes and new lines)
+ * @param {string} text
+ * @param {string} separator
+ * @returns {array} records with line number where they start
+ */
+export function parseCSV(text: string, separator: string): CSVRecord[] {
+  const records: CSVRecord[] = [];
+  let values: string[] = [],
+    value = '',
+    quoted = false,
+    line = 1,
+    recordLine = 1;
+  text = text.replace(/^\uFEFF/, '');
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        value += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      values.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      values.push(value);
+      if (values.length > 1 || values[0] !== '') records.push({ line: recordLine, values });
+      values = [];
+      value = '';
+      line++;
+      recordLine = line;
+    } else {
+      value += char;
+    }
+  }
+  values.push(value);
+  if (values.length > 1 || values[0] !== '') records.push({ line: recordLine, values });
+  return records;
+}
+
+export default function CSV(options: Options = {}) {
+  let state, api;
+  const defaultOptions: Options = {
+    separator: ',',
+    dateFormat: 'YYYY-MM-DD HH:mm',
+    bom: true,
+    escapeFormulas: true,
+    onImportError(errors) {},
+    getApi(api) {}
+  };
+  options = { ...defaultOptions, ...options };
+
+  function escapeValue(value): string {
+    let text = value === undefined || value === null ? '' : String(value);
+    if (options.escapeFormulas && typeof value === 'string' && formulaRegex.test(text)) text = "'" + text;
+    if (text.includes(options.separator) || /["\r\n]/.test(text)) return `"${text.replace(/"/g, '""')}"`;
+    return text;
+  }
+
+  function stringify(records: any[][]): string {
+    const text = records.map(values => values.map(escapeValue).join(options.separator)).join('\r\n');
+    return (options.bom ? '\uFEFF' : '') + text + '\r\n';
+  }
+
+  /**
+   * Rows fields - id, parentId and list columns (columns with data function are exported only)
+   * @returns {array}
+   */
+  function getRowsFields(): Field[] {
+    const fields: Field[] = [
+      { name: 'id', property: 'id', get: row => row.id },
+      { name: 'parentId', property: 'parentId', get: row => row.parentId }
+    ];
+    const columns = state.get('config.list.columns.data') || {};
+    for (const columnId in columns) {
+      const column = columns[columnId];
+      const name = (column.header && column.header.content) || column.id;
+      if (typeof column.data === 'function') {
+        fields.push({ name, property: '', get: row => String(column.data(row)).replace(/<[^>]*>/g, '') });
+      } else if (column.data !== 'id' && column.data !== 'parentId') {
+        fields.push({ name, property: column.data, get: row => row[column.data] });
+      }
+    }
+    return fields;
+  }
+
+  function exportRows(): string {
+    const fields = getRowsFields();
+    const rows = state.get('config.list.rows');
+    const records: any[][] = [fields.map(field => field.name)];
+    for (const rowId in rows) {
+      records.push(fields.map(field => field.get(rows[rowId])));
+    }
+    return stringify(records);
+  }
+
+  /**
+   * Items end is exported as exclusive (time.end + 1) - like in spreadsheets where task lasts until end date
+   * @returns {string} csv
+   */
+  function exportItems(): string {
+    const items = state.get('config.chart.items');
+    const records: any[][] = [itemsFields];
+    for (const itemId in items) {
+      const item = items[itemId];
+      const end = api.isMilestone(item) ? item.time.end : item.time.end + 1;
+      records.push([
+        item.id,
+        item.rowId,
+        item.label,
+        api.time.date(item.time.start).format(options.dateFormat),
+        api.time.date(end).format(options.dateFormat),
+        typeof item.progress === 'number' ? item.progress : ''
+      ]);
+    }
+    return stringify(records);
+  }
+
+  /**
+   * Parse date in dateFormat - value must be formatted back to the same text (strict)
+   * @param {string} value
+   * @returns {number|null}
+   */
+  function parseDate(value: string): number | null {
+    const date = api.time.date(value, options.dateFormat);
+    if (!date.isValid() || date.format(options.dateFormat) !== value) return null;
+    return date.valueOf();
+  }
+
+  /**
+   * Map header names to fields - unknown columns are reported
+   */
+  function getHeader(
+    record: CSVRecord,
+    known: string[],
+    required: string[],
+    file: 'rows' | 'items',
+    errors: ImportError[]
+  ): string[] {
+    const header = record.values.map(value => value.trim());
+    const error = (column: string, message: string) => errors.push({ file, line: record.line, column, message });
+    for (const name of header) {
+      if (!known.includes(name)) error(name, `Unknown column '${name}'`);
+    }
+    for (const name of required) {
+      if (!header.includes(name)) error(name, `Missing column '${name}'`);
+    }
+    return header;
+  }
+
+  function unescapeValue(value: string): string {
+    return options.escapeFormulas && escapedFormulaRegex.test(value) ? value.substr(1) : value;
+  }
+
+  function toObject(header: string[], record: CSVRecord): { [name: string]: string } {
+    const result = {};
+    header.forEach(
+      (name, index) => (result[name] = record.values[index] !== undefined ? unescapeValue(record.values[index]) : '')
+    );
+    return result;
+  }
+
+  function parseRows(csv: string, errors: ImportError[]): { rows: Rows; lines: { [rowId: string]: number } } {
+    const rows: Rows = {};
+    const lines = {};
+    const [headerRecord, ...records] = parseCSV(csv, options.separator);
+    if (!headerRecord) {
+      errors.push({ file: 'rows', line: 1, message: 'There are no rows' });
+      return { rows, lines };
+    }
+    const fields = getRowsFields();
+    const header = getHeader(headerRecord, fields.map(field => field.name), ['id'], 'rows', errors);
+    for (const record of records) {
+      const values = toObject(header, record);
+      const id = (values.id || '').trim();
+      if (!id) {
+        errors.push({ file: 'rows', line: record.line, column: 'id', message: 'Row id is empty' });
+        continue;
+      }
+      if (rows[id] !== undefined) {
+        errors.push({ file: 'rows', line: record.line, column: 'id', message: `Duplicate row id '${id}'` });
+        continue;
+      }
+      const row: Row = { id };
+      for (const field of fields) {
+        if (!field.property || field.property === 'id' || values[field.name] === undefined) continue;
+        if (field.property === 'parentId' && values[field.name] === '') continue;
+        row[field.property] = values[field.name];
+      }
+      rows[id] = row;
+      lines[id] = record.line;
+    }
+    for (const rowId in rows) {
+      const parentId = rows[rowId].parentId;
+      if (parentId === undefined) continue;
+      const error = (message: string) => errors.push({ file: 'rows', line: lines[rowId], column: 'parentId', message });
+      if (rows[parentId] === undefined) {
+        error(`Unknown parentId '${parentId}'`);
+        continue;
+      }
+      // parent cycle would break tree map
+      const visited = [rowId];
+      let current = rows[parentId];
+      while (current && !visited.includes(current.id)) {
+        visited.push(current.id);
+        current = current.parentId !== undefined ? rows[current.parentId] : undefined;
+      }
+      if (current && current.id === rowId) {
+        error(`Row '${rowId}' is in a parent cycle`);
+      }
+    }
+    return { rows, lines };
+  }
+
+  function parseItems(csv: string, rows: Rows, errors: ImportError[]): Items {
+    const items: Items = {};
+    const [headerRecord, ...records] = parseCSV(csv, options.separator);
+    if (!headerRecord) return items;
+    const header = getHeader(headerRecord, itemsFields, ['id', 'rowId', 'start', 'end'], 'items', errors);
+    for (const record of records) {
+      const values = toObject(header, record);
+      const error = (column: string, message: string) =>
+        errors.push({ file: 'items', line: record.line, column, message });
+      const id = (values.id || '').trim();
+      if (!id) {
+        error('id', 'Item id is empty');
+        continue;
+      }
+      if (items[id] !== undefined) {
+        error('id', `Duplicate item id '${id}'`);
+        continue;
+      }
+      const rowId = (values.rowId || '').trim();
+      if (rows[rowId] === undefined) {
+        error('rowId', `Unknown rowId '${rowId}'`);
+        continue;
+      }
+      const start = parseDate(values.start);
+      const end = parseDate(values.end);
+      if (start === null) error('start', `Invalid start date '${values.start}' (${options.dateFormat})`);
+      if (end === null) error('end', `Invalid end date '${values.end}' (${options.dateFormat})`);
+      if (start === null || end === null) continue;
+      if (end < start) {
+        error('end', 'End is before start');
+        continue;
+      }
+      const item: Item = { id, rowId, label: values.label || '', time: { start, end: end === start ? end : end - 1 } };
+      if (values.progress !== undefined && values.progress.trim() !== '') {
+        const progress = Number(values.progress);
+        if (isNaN(progress) || progress < 0 || progress > 100) {
+          error('progress', `Invalid progress '${values.progress}' (0 - 100)`);
+          continue;
+        }
+        item.progress = progress;
+      }
+      items[id] = item;
+    }
+    return items;
+  }
+
+  /**
+   * Parse and validate rows and items - without itemsCSV current items are validated against new rows
+   * @param {string} rowsCSV
+   * @param {string} itemsCSV
+   * @returns {object} rows, items and errors
+   */
+  function parse(rowsCSV: string, itemsCSV?: string): ImportResult {
+    const errors: ImportError[] = [];
+    const { rows } = parseRows(rowsCSV, errors);
+    let items: Items;
+    if (itemsCSV !== undefined) {
+      items = parseItems(itemsCSV, rows, errors);
+    } else {
+      items = state.get('config.chart.items');
+      for (const itemId in items) {
+        if (rows[items[itemId].rowId] === undefined) {
+          errors.push({ file: 'items', line: 0, column: 'rowId', message: `Item '${itemId}' has unknown rowId` });
+        }
+      }
+    }
+    return { rows, items, errors };
+  }
+
+  /**
+   * Replace rows and items - nothing is changed when there are errors
+   * @param {string} rowsCSV
+   * @param {string} itemsCSV
+   * @returns {object} rows, items and errors
+   */
+  function importCSV(rowsCSV: string, itemsCSV?: string): ImportResult {
+    const result = parse(rowsCSV, itemsCSV);
+    if (result.errors.length) {
+      options.onImportError(result.errors);
+      return result;
+    }
+    state.update('config.list.rows', result.rows);
+    if (itemsCSV !== undefined) state.update('config.chart.items', result.items);
+    return result;
+  }
+
+  return function initialize(vido) {
+    state = vido.state;
+    api = vido.api;
+    options.getApi({ exportRows, exportItems, parse, import: importCSV });
+  };
+}
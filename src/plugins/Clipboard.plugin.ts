@@ -0,0 +1,303 @@
+/**
+ * Clipboard plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import { Action } from '@neuronet.io/vido/vido.esm';
+import { Item } from '../types';
+
+export const clipboardType = 'gantt-schedule-timeline-calendar/items';
+
+export interface ClipboardItem {
+  item: Item;
+  rowOffset: number;
+  timeOffset: number;
+}
+
+export interface ClipboardData {
+  type: string;
+  version: number;
+  items: ClipboardItem[];
+}
+
+export interface Anchor {
+  rowId: string;
+  time: number;
+}
+
+export interface ClipboardApi {
+  copy: () => ClipboardData | undefined;
+  cut: () => ClipboardData | undefined;
+  paste: (data: ClipboardData | string, anchor?: Anchor) => Item[] | false;
+  getAnchor: () => Anchor | null;
+}
+
+export interface Options {
+  createId?: (item: Item) => string;
+  onCopy?: (data: ClipboardData) => void;
+  onPaste?: (items: Item[]) => void;
+  onCollision?: (items: Item[]) => void;
+  onMissingRows?: (items: Item[]) => void;
+  getApi?: (api: ClipboardApi) => void;
+}
+
+const pointerEventsExists = typeof PointerEvent !== 'undefined';
+
+function getDependencyId(dependency): string {
+  return String(typeof dependency === 'object' ? dependency.id : dependency);
+}
+
+export default function Clipboard(options: Options = {}) {
+  let state, api;
+  const defaultOptions: Options = {
+    createId(item) {
+      const items = state.get('config.chart.items');
+      let index = 1;
+      while (items[`${item.id}-copy-${index}`] !== undefined) index++;
+      return `${item.id}-copy-${index}`;
+    },
+    onCopy(data) {},
+    onPaste(items) {},
+    onCollision(items) {},
+    onMissingRows(items) {},
+    getApi(api) {}
+  };
+  options = { ...defaultOptions, ...options };
+
+  let anchor: Anchor | null = null,
+    pointerInside = false;
+
+  function getRows() {
+    return state.get('_internal.list.rowsWithParentsExpanded') || [];
+  }
+
+  /**
+   * Clipboard events are handled only when user works with this instance
+   */
+  function isActive() {
+    const main = state.get('_internal.elements.main');
+    if (!main) return false;
+    const active = document.activeElement as HTMLElement;
+    if (active && (active.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(active.tagName))) return false;
+    return pointerInside || main.contains(active);
+  }
+
+  /**
+   * Get selected items with time and row offsets from the first of them
+   * @returns {object|undefined} clipboard data
+   */
+  function getClipboardData(): ClipboardData | undefined {
+    const selected = state.get('config.plugin.selection.selected.chart-timeline-items-row-items') || [];
+    const items = state.get('config.chart.items');
+    const rowsIds = getRows().map(row => row.id);
+    const copied = selected.map(id => items[id]).filter(item => item !== undefined && rowsIds.includes(item.rowId));
+    if (!copied.length) return;
+    const firstRow = Math.min(...copied.map(item => rowsIds.indexOf(item.rowId)));
+    const firstTime = Math.min(...copied.map(item => item.time.start));
+    return {
+      type: clipboardType,
+      version: 1,
+      items: copied.map(item => {
+        const { selected, selecting, ...copy } = JSON.parse(JSON.stringify(item));
+        return {
+          item: copy,
+          rowOffset: rowsIds.indexOf(item.rowId) - firstRow,
+          timeOffset: item.time.start - firstTime
+        };
+      })
+    };
+  }
+
+  function copy(): ClipboardData | undefined {
+    const data = getClipboardData();
+    if (data) options.onCopy(data);
+    return data;
+  }
+
+  /**
+   * Remove items and dependencies pointing to them
+   * @param {string[]} itemsIds
+   */
+  function removeItems(itemsIds: string[]) {
+    state.update('config.chart.items', items => {
+      for (const itemId of itemsIds) delete items[itemId];
+      for (const id in items) {
+        for (const key of ['dependant', 'linkedWith']) {
+          if (Array.isArray(items[id][key])) {
+            items[id][key] = items[id][key].filter(dependency => !itemsIds.includes(getDependencyId(dependency)));
+          }
+        }
+      }
+      return items;
+    });
+  }
+
+  function cut(): ClipboardData | undefined {
+    const data = copy();
+    if (data) removeItems(data.items.map(entry => entry.item.id));
+    return data;
+  }
+
+  function parse(data: ClipboardData | string): ClipboardData | undefined {
+    if (typeof data === 'string') {
+      try {
+        data = JSON.parse(data) as ClipboardData;
+      } catch (e) {
+        return;
+      }
+    }
+    if (!data || data.type !== clipboardType || !Array.isArray(data.items)) return;
+    return data;
+  }
+
+  /**
+   * Paste items at anchor (focused grid block) keeping their row and time offsets
+   * Nothing is pasted when any of the items has no target row (below the last row) or collides with existing items
+   * @param {object|string} clipboardData
+   * @param {object} at anchor - focused grid block by default
+   * @returns {array|false} pasted items
+   */
+  function paste(clipboardData: ClipboardData | string, at: Anchor | null = anchor): Item[] | false {
+    const data = parse(clipboardData);
+    if (!data) return false;
+    if (!at) {
+      api.log('Clipboard: there is no focused grid block to paste items at');
+      return false;
+    }
+    const rows = getRows();
+    const anchorIndex = rows.findIndex(row => row.id === at.rowId);
+    if (anchorIndex === -1) return false;
+    const missing = data.items.filter(entry => !rows[anchorIndex + entry.rowOffset]).map(entry => entry.item);
+    if (missing.length) {
+      options.onMissingRows(missing);
+      return false;
+    }
+    const idsMap = {};
+    const pasted: Item[] = [];
+    for (const entry of data.items) {
+      const row = rows[anchorIndex + entry.rowOffset];
+      const id = options.createId(entry.item);
+      idsMap[entry.item.id] = id;
+      const start = at.time + entry.timeOffset;
+      const end = start + (entry.item.time.end - entry.item.time.start);
+      pasted.push({ ...entry.item, id, rowId: row.id, time: { start, end } });
+    }
+    // dependencies between pasted items are kept, others are removed
+    for (const item of pasted) {
+      for (const key of ['dependant', 'linkedWith']) {
+        if (!Array.isArray(item[key])) continue;
+        item[key] = item[key]
+          .filter(dependency => idsMap[getDependencyId(dependency)] !== undefined)
+          .map(dependency => {
+            const id = idsMap[getDependencyId(dependency)];
+            return typeof dependency === 'object' ? { ...dependency, id } : id;
+          });
+      }
+    }
+    if (!pasted.length) return false;
+    const isCollision = state.get('_internal.plugin.ItemMovement.isCollision');
+    if (typeof isCollision === 'function') {
+      for (const item of pasted) {
+        if (isCollision(item.rowId, item.id, item.time.start, item.time.end)) {
+          options.onCollision(pasted);
+          return false;
+        }
+      }
+    }
+    state.update('config.chart.items', items => {
+      for (const item of pasted) items[item.id] = item;
+      return items;
+    });
+    const select = state.get('_internal.plugin.selection.select');
+    if (typeof select === 'function') {
+      select('chart-timeline-items-row-item', pasted.map(item => item.id));
+    }
+    options.onPaste(pasted);
+    return pasted;
+  }
+
+  function onCopy(ev: ClipboardEvent) {
+    if (!isActive()) return;
+    const data = ev.type === 'cut' ? cut() : copy();
+    if (!data) return;
+    ev.clipboardData.setData('text/plain', JSON.stringify(data));
+    ev.preventDefault();
+  }
+
+  function onPaste(ev: ClipboardEvent) {
+    if (!isActive()) return;
+    const data = parse(ev.clipboardData.getData('text/plain'));
+    if (!data) return;
+    ev.preventDefault();
+    paste(data);
+  }
+
+  function onPointerDown(ev: Event) {
+    const main = state.get('_internal.elements.main');
+    pointerInside = !!main && main.contains(ev.target as Node);
+  }
+
+  /**
+   * Remember focused (or clicked) grid block as paste anchor
+   */
+  class AnchorAction extends Action {
+    private data;
+    private setAnchor: () => void;
+
+    constructor(element: HTMLElement, data) {
+      super();
+      this.data = data;
+      this.setAnchor = () => {
+        anchor = { rowId: this.data.row.id, time: this.data.time.leftGlobal };
+      };
+      element.addEventListener('focus', this.setAnchor);
+      element.addEventListener(pointerEventsExists ? 'pointerdown' : 'mousedown', this.setAnchor);
+    }
+
+    update(element: HTMLElement, data) {
+      this.data = data;
+    }
+
+    destroy(element: HTMLElement) {
+      element.removeEventListener('focus', this.setAnchor);
+      element.removeEventListener(pointerEventsExists ? 'pointerdown' : 'mousedown', this.setAnchor);
+    }
+  }
+
+  /**
+   * Cell focused with KeyboardNavigation plugin is an anchor too (even if item is focused inside it)
+   * @param {object} position
+   */
+  function onKeyboardNavigation(position) {
+    if (position && position.rowId !== null && position.time !== null) {
+      anchor = { rowId: position.rowId, time: position.time };
+    }
+  }
+
+  return function initialize(vido) {
+    state = vido.state;
+    api = vido.api;
+    state.update('config.actions.chart-timeline-grid-row-block', actions => {
+      actions.push(AnchorAction);
+      return actions;
+    });
+    const unsub = state.subscribe('config.plugin.KeyboardNavigation', onKeyboardNavigation);
+    document.addEventListener('copy', onCopy);
+    document.addEventListener('cut', onCopy);
+    document.addEventListener('paste', onPaste);
+    document.addEventListener(pointerEventsExists ? 'pointerdown' : 'mousedown', onPointerDown, true);
+    options.getApi({ copy, cut, paste, getAnchor: () => anchor });
+    return function onDestroy() {
+      unsub();
+      document.removeEventListener('copy', onCopy);
+      document.removeEventListener('cut', onCopy);
+      document.removeEventListener('paste', onPaste);
+      document.removeEventListener(pointerEventsExists ? 'pointerdown' : 'mousedown', onPointerDown, true);
+    };
+  };
+}
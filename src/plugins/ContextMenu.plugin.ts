@@ -0,0 +1,539 @@
+/**
+ * Context menu plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import { Action } from '@neuronet.io/vido/vido.esm';
+
+export type MenuTarget = 'item' | 'list-row' | 'grid-block' | 'calendar-date';
+export type BuiltinMenuItem = 'delete' | 'split' | 'add-dependency';
+
+export interface MenuContext {
+  type: MenuTarget;
+  item?: any;
+  row?: any;
+  time?: number;
+  date?: any;
+  event: MouseEvent;
+  vido: any;
+  close: () => void;
+}
+
+export interface MenuItem {
+  label?: string;
+  disabled?: boolean;
+  separator?: boolean;
+  items?: MenuItems;
+  action?: (context: MenuContext) => void;
+}
+
+export type MenuItemsProvider = (context: MenuContext) => MenuItemsList | Promise<MenuItemsList>;
+export type MenuItemsList = (MenuItem | BuiltinMenuItem)[];
+export type MenuItems = MenuItemsList | MenuItemsProvider;
+
+export interface Menus {
+  item?: MenuItems;
+  'list-row'?: MenuItems;
+  'grid-block'?: MenuItems;
+  'calendar-date'?: MenuItems;
+}
+
+export interface Options {
+  menus?: Menus;
+  labels?: {
+    delete?: string;
+    split?: string;
+    addDependency?: string;
+    loading?: string;
+  };
+}
+
+interface MenuLevel {
+  element: HTMLElement;
+  items: MenuItem[];
+  elements: HTMLElement[];
+  index: number;
+}
+
+function escapeHTML(text: string) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function getDependencyId(dependency): string {
+  return String(typeof dependency === 'object' ? dependency.id : dependency);
+}
+
+export default function ContextMenu(options: Options = {}) {
+  let vido, state, api, className;
+  const defaultOptions: Options = {
+    menus: {
+      item: ['delete', 'split', 'add-dependency'],
+      'list-row': [],
+      'grid-block': [],
+      'calendar-date': []
+    },
+    labels: {
+      delete: 'Delete',
+      split: 'Split',
+      addDependency: 'Add dependency',
+      loading: 'Loading...'
+    }
+  };
+  options = {
+    ...defaultOptions,
+    ...options,
+    menus: { ...defaultOptions.menus, ...options.menus },
+    labels: { ...defaultOptions.labels, ...options.labels }
+  };
+  const pluginPath = 'config.plugin.ContextMenu';
+
+  let levels: MenuLevel[] = [],
+    context: MenuContext | null = null,
+    openId = 0;
+
+  /**
+   * Remove item and all dependencies pointing to it
+   * @param {string} itemId
+   */
+  function deleteItem(itemId: string) {
+    state.update('config.chart.items', items => {
+      delete items[itemId];
+      for (const id in items) {
+        const item = items[id];
+        for (const key of ['dependant', 'linkedWith']) {
+          if (Array.isArray(item[key])) {
+            item[key] = item[key].filter(dependency => getDependencyId(dependency) !== itemId);
+          }
+        }
+      }
+      return items;
+    });
+  }
+
+  /**
+   * Split item in two at specified time - successors are moved to the second part
+   * @param {string} itemId
+   * @param {number} time
+   */
+  function splitItem(itemId: string, time: number) {
+    const item = state.get(`config.chart.items.${itemId}`);
+    if (!item || time <= item.time.start + 1 || time >= item.time.end) return;
+    state.update('config.chart.items', items => {
+      let index = 2;
+      while (items[`${itemId}-${index}`] !== undefined) index++;
+      const newId = `${itemId}-${index}`;
+      const original = items[itemId];
+      items[newId] = {
+        ...original,
+        id: newId,
+        time: { start: time, end: original.time.end },
+        dependant: original.dependant,
+        linkedWith: [itemId]
+      };
+      original.time = { start: original.time.start, end: time - 1 };
+      delete original.dependant;
+      for (const id in items) {
+        if (id === newId || !Array.isArray(items[id].linkedWith)) continue;
+        items[id].linkedWith = items[id].linkedWith.map(dependency => {
+          if (getDependencyId(dependency) !== itemId) return dependency;
+          return typeof dependency === 'object' ? { ...dependency, id: newId } : newId;
+        });
+      }
+      return items;
+    });
+  }
+
+  function addDependency(fromId: string, toId: string) {
+    if (fromId === toId) return;
+    state.update(`config.chart.items.${fromId}.dependant`, (dependant = []) => {
+      if (!dependant.some(dependency => getDependencyId(dependency) === toId)) {
+        dependant.push(toId);
+      }
+      return dependant;
+    });
+  }
+
+  function getBuiltin(name: BuiltinMenuItem, ctx: MenuContext): MenuItem | undefined {
+    if (ctx.type !== 'item') return;
+    switch (name) {
+      case 'delete':
+        return { label: options.labels.delete, action: () => deleteItem(ctx.item.id) };
+      case 'split':
+        return {
+          label: options.labels.split,
+          disabled: api.isMilestone(ctx.item),
+          action: () => splitItem(ctx.item.id, Math.round(ctx.time))
+        };
+      case 'add-dependency':
+        return {
+          label: options.labels.addDependency,
+          action: () => state.update(`${pluginPath}.linkFrom`, ctx.item.id)
+        };
+    }
+  }
+
+  function normalizeItems(items: MenuItemsList, ctx: MenuContext): MenuItem[] {
+    const result = [];
+    for (const menuItem of items) {
+      const normalized = typeof menuItem === 'string' ? getBuiltin(menuItem, ctx) : menuItem;
+      if (normalized) result.push(normalized);
+    }
+    return result;
+  }
+
+  /**
+   * Get menu items - async providers are resolved
+   * @param {array|function} items
+   * @param {object} ctx
+   * @returns {array|Promise} menu items
+   */
+  function resolveItems(items: MenuItems, ctx: MenuContext): MenuItem[] | Promise<MenuItem[]> {
+    const result = typeof items === 'function' ? items(ctx) : items;
+    if (result && typeof (result as Promise<MenuItemsList>).then === 'function') {
+      return (result as Promise<MenuItemsList>).then(resolved => normalizeItems(resolved || [], ctx));
+    }
+    return normalizeItems((result as MenuItemsList) || [], ctx);
+  }
+
+  function setPosition(element: HTMLElement, x: number, y: number, alternativeX = x) {
+    const main = state.get('_internal.elements.main');
+    const mainRect = main.getBoundingClientRect();
+    let left = x,
+      top = y;
+    if (left + element.offsetWidth > mainRect.right) left = alternativeX - element.offsetWidth;
+    if (top + element.offsetHeight > mainRect.bottom) top = mainRect.bottom - element.offsetHeight;
+    element.style.left = Math.max(mainRect.left, left) + 'px';
+    element.style.top = Math.max(mainRect.top, top) + 'px';
+  }
+
+  function closeLevels(from: number) {
+    for (const level of levels.slice(from)) level.element.remove();
+    levels = levels.slice(0, from);
+  }
+
+  function close() {
+    openId++;
+    closeLevels(0);
+    context = null;
+  }
+
+  function renderLevel(levelIndex: number, items: MenuItem[], x: number, y: number, alternativeX = x) {
+    closeLevels(levelIndex);
+    const element = document.createElement('div');
+    element.classList.add(className);
+    element.setAttribute('role', 'menu');
+    const level: MenuLevel = { element, items, elements: [], index: -1 };
+    items.forEach((menuItem, index) => {
+      const itemElement = document.createElement('div');
+      if (menuItem.separator) {
+        itemElement.classList.add(className + '-separator');
+        itemElement.setAttribute('role', 'separator');
+      } else {
+        itemElement.classList.add(className + '-item');
+        itemElement.setAttribute('role', 'menuitem');
+        itemElement.tabIndex = -1;
+        itemElement.innerHTML = escapeHTML(menuItem.label || '');
+        if (menuItem.disabled) {
+          itemElement.classList.add(className + '-item--disabled');
+          itemElement.setAttribute('aria-disabled', 'true');
+        }
+        if (menuItem.items) {
+          itemElement.classList.add(className + '-item--submenu');
+          itemElement.setAttribute('aria-haspopup', 'true');
+        }
+        itemElement.addEventListener('mouseenter', () => {
+          focus(levelIndex, index);
+          if (menuItem.items && !menuItem.disabled) openSubmenu(levelIndex, index);
+        });
+        itemElement.addEventListener('click', ev => {
+          ev.stopPropagation();
+          activate(levelIndex, index);
+        });
+      }
+      level.elements.push(itemElement);
+      element.appendChild(itemElement);
+    });
+    levels.push(level);
+    state.get('_internal.elements.main').appendChild(element);
+    setPosition(element, x, y, alternativeX);
+    return level;
+  }
+
+  function isFocusable(level: MenuLevel, index: number) {
+    const menuItem = level.items[index];
+    return menuItem && !menuItem.separator && !menuItem.disabled;
+  }
+
+  function focus(levelIndex: number, index: number) {
+    const level = levels[levelIndex];
+    if (!level || !level.elements[index]) return;
+    if (level.index !== index) closeLevels(levelIndex + 1);
+    if (level.elements[level.index]) level.elements[level.index].classList.remove(className + '-item--active');
+    level.index = index;
+    level.elements[index].classList.add(className + '-item--active');
+    level.elements[index].focus();
+  }
+
+  function focusNext(levelIndex: number, direction: number) {
+    const level = levels[levelIndex];
+    if (!level) return;
+    const count = level.items.length;
+    let index = level.index;
+    for (let i = 0; i < count; i++) {
+      index = (index + direction + count) % count;
+      if (isFocusable(level, index)) return focus(levelIndex, index);
+    }
+  }
+
+  function openSubmenu(levelIndex: number, index: number, focusFirst = false) {
+    const level = levels[levelIndex];
+    const menuItem = level.items[index];
+    if (levels[levelIndex + 1] && level.index === index) {
+      if (focusFirst) focusNext(levelIndex + 1, 1);
+      return;
+    }
+    const rect = level.elements[index].getBoundingClientRect();
+    const currentOpenId = openId;
+    const isOpen = () => currentOpenId === openId && levels[levelIndex] === level && level.index === index;
+    const show = (items: MenuItem[]) => {
+      if (!isOpen()) return;
+      renderLevel(levelIndex + 1, items, rect.right, rect.top, rect.left);
+      if (focusFirst) focusNext(levelIndex + 1, 1);
+    };
+    const items = resolveItems(menuItem.items, context);
+    if (Array.isArray(items)) return show(items);
+    show([{ label: options.labels.loading, disabled: true }]);
+    // only the submenu that is still loading is closed - parent menu stays open
+    items.then(show, error => {
+      api.log('ContextMenu: submenu items could not be loaded', error);
+      if (isOpen()) closeLevels(levelIndex + 1);
+    });
+  }
+
+  function activate(levelIndex: number, index: number) {
+    const level = levels[levelIndex];
+    if (!isFocusable(level, index)) return;
+    const menuItem = level.items[index];
+    if (menuItem.items) return openSubmenu(levelIndex, index, true);
+    const ctx = context;
+    close();
+    if (typeof menuItem.action === 'function') menuItem.action(ctx);
+  }
+
+  /**
+   * Open menu for specified target
+   * @param {object} ctx
+   */
+  function open(ctx: MenuContext) {
+    close();
+    const menuItems = options.menus[ctx.type];
+    if (!menuItems) return;
+    context = ctx;
+    const currentOpenId = openId;
+    const x = ctx.event.clientX,
+      y = ctx.event.clientY;
+    const show = (items: MenuItem[]) => {
+      if (currentOpenId !== openId) return;
+      if (!items.length) return close();
+      renderLevel(0, items, x, y);
+      focusNext(0, 1);
+    };
+    const items = resolveItems(menuItems, ctx);
+    if (Array.isArray(items)) return show(items);
+    renderLevel(0, [{ label: options.labels.loading, disabled: true }], x, y);
+    items.then(show, error => {
+      api.log('ContextMenu: menu items could not be loaded', error);
+      if (currentOpenId === openId) close();
+    });
+  }
+
+  function onKeyDown(ev: KeyboardEvent) {
+    if (!levels.length) {
+      if (ev.key === 'Escape' && state.get(`${pluginPath}.linkFrom`) !== null) {
+        state.update(`${pluginPath}.linkFrom`, null);
+      }
+      return;
+    }
+    const levelIndex = levels.length - 1;
+    const level = levels[levelIndex];
+    switch (ev.key) {
+      case 'ArrowDown':
+        focusNext(levelIndex, 1);
+        break;
+      case 'ArrowUp':
+        focusNext(levelIndex, -1);
+        break;
+      case 'Home':
+        level.index = -1;
+        focusNext(levelIndex, 1);
+        break;
+      case 'End':
+        level.index = level.items.length;
+        focusNext(levelIndex, -1);
+        break;
+      case 'ArrowRight':
+        if (level.items[level.index] && level.items[level.index].items) openSubmenu(levelIndex, level.index, true);
+        break;
+      case 'ArrowLeft':
+        if (levelIndex > 0) {
+          closeLevels(levelIndex);
+          focus(levelIndex - 1, levels[levelIndex - 1].index);
+        }
+        break;
+      case 'Enter':
+      case ' ':
+        activate(levelIndex, level.index);
+        break;
+      case 'Escape':
+      case 'Tab':
+        close();
+        break;
+      default:
+        return;
+    }
+    ev.preventDefault();
+    ev.stopPropagation();
+  }
+
+  function onDocumentDown(ev: Event) {
+    if (!levels.length) return;
+    if (levels.some(level => level.element.contains(ev.target as Node))) return;
+    close();
+  }
+
+  /**
+   * Time under the pointer
+   * @param {MouseEvent} ev
+   * @returns {number}
+   */
+  function getPointerTime(ev: MouseEvent) {
+    const chartTimeline = state.get('_internal.elements.chart-timeline');
+    const time = state.get('_internal.chart.time');
+    const left = ev.clientX - chartTimeline.getBoundingClientRect().left - api.getCompensationX();
+    return time.leftGlobal + left * time.timePerPixel;
+  }
+
+  /**
+   * Context menu action - opens menu defined for the target type
+   */
+  class ContextMenuAction extends Action {
+    private data;
+    private onContextMenu: (ev: MouseEvent) => void;
+    private onClick: (ev: MouseEvent) => void;
+
+    constructor(element: HTMLElement, data, type: MenuTarget) {
+      super();
+      this.data = data;
+      this.onContextMenu = ev => {
+        ev.preventDefault();
+        ev.stopPropagation();
+        const ctx: MenuContext = { type, event: ev, vido, close };
+        switch (type) {
+          case 'item':
+            ctx.item = state.get(`config.chart.items.${this.data.item.id}`);
+            ctx.row = this.data.row;
+            ctx.time = getPointerTime(ev);
+            break;
+          case 'list-row':
+            ctx.row = state.get(`config.list.rows.${this.data.rowId}`);
+            break;
+          case 'grid-block':
+            ctx.row = this.data.row;
+            ctx.time = getPointerTime(ev);
+            break;
+          case 'calendar-date':
+            ctx.date = this.data.date;
+            ctx.time = this.data.date.leftGlobal;
+            break;
+        }
+        open(ctx);
+      };
+      element.addEventListener('contextmenu', this.onContextMenu);
+      if (type === 'item') {
+        this.onClick = ev => {
+          const linkFrom = state.get(`${pluginPath}.linkFrom`);
+          if (linkFrom === null) return;
+          ev.stopPropagation();
+          addDependency(linkFrom, this.data.item.id);
+          state.update(`${pluginPath}.linkFrom`, null);
+        };
+        element.addEventListener('click', this.onClick);
+      }
+    }
+
+    update(element: HTMLElement, data) {
+      this.data = data;
+    }
+
+    destroy(element: HTMLElement) {
+      element.removeEventListener('contextmenu', this.onContextMenu);
+      if (this.onClick) element.removeEventListener('click', this.onClick);
+    }
+  }
+
+  class ItemMenuAction extends ContextMenuAction {
+    constructor(element: HTMLElement, data) {
+      super(element, data, 'item');
+    }
+  }
+
+  class ListRowMenuAction extends ContextMenuAction {
+    constructor(element: HTMLElement, data) {
+      super(element, data, 'list-row');
+    }
+  }
+
+  class GridBlockMenuAction extends ContextMenuAction {
+    constructor(element: HTMLElement, data) {
+      super(element, data, 'grid-block');
+    }
+  }
+
+  class CalendarDateMenuAction extends ContextMenuAction {
+    constructor(element: HTMLElement, data) {
+      super(element, data, 'calendar-date');
+    }
+  }
+
+  function addAction(name: string, action) {
+    state.update(`config.actions.${name}`, actions => {
+      actions.push(action);
+      return actions;
+    });
+  }
+
+  return function initialize(mainVido) {
+    vido = mainVido;
+    state = vido.state;
+    api = vido.api;
+    className = api.getClass('context-menu');
+    state.update(pluginPath, { linkFrom: null });
+    addAction('chart-timeline-items-row-item', ItemMenuAction);
+    addAction('list-column-row', ListRowMenuAction);
+    addAction('chart-timeline-grid-row-block', GridBlockMenuAction);
+    addAction('chart-calendar-date', CalendarDateMenuAction);
+    // menu position is not valid anymore after scroll or zoom
+    const unsub = state.subscribeAll(['config.scroll', 'config.chart.time'], close, { bulk: true });
+    document.addEventListener('keydown', onKeyDown, true);
+    document.addEventListener('pointerdown', onDocumentDown, true);
+    document.addEventListener('mousedown', onDocumentDown, true);
+    window.addEventListener('blur', close);
+    return function onDestroy() {
+      close();
+      unsub();
+      document.removeEventListener('keydown', onKeyDown, true);
+      document.removeEventListener('pointerdown', onDocumentDown, true);
+      document.removeEventListener('mousedown', onDocumentDown, true);
+      window.removeEventListener('blur', close);
+    };
+  };
+}
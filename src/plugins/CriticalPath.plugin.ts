@@ -0,0 +1,160 @@
+/**
+ * Critical path plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import { Action } from '@neuronet.io/vido/vido.esm';
+import { CriticalPathResult } from '../types';
+
+export interface Options {
+  itemClassName?: string;
+  rowClassName?: string;
+  onChange?: (result: CriticalPathResult) => void;
+}
+
+export interface RowFloat {
+  totalFloat: number;
+  critical: boolean;
+}
+
+export interface PluginData extends CriticalPathResult {
+  rows: { [rowId: string]: RowFloat };
+}
+
+export default function CriticalPath(options: Options = {}) {
+  let state, api, itemClassName, rowClassName;
+  const defaultOptions: Options = {
+    onChange(result) {}
+  };
+  options = { ...defaultOptions, ...options };
+  const pluginPath = 'config.plugin.CriticalPath';
+
+  function toggleClass(element: HTMLElement, className: string, critical: boolean) {
+    const hasClass = element.classList.contains(className);
+    if (critical && !hasClass) {
+      element.classList.add(className);
+    } else if (!critical && hasClass) {
+      element.classList.remove(className);
+    }
+  }
+
+  /**
+   * Rows float is the lowest float of the items inside row
+   * @param {object} result
+   * @returns {object} float by row id
+   */
+  function getRowsFloat(result: CriticalPathResult) {
+    const items = state.get('config.chart.items');
+    const rows: { [rowId: string]: RowFloat } = {};
+    for (const itemId in result.items) {
+      const schedule = result.items[itemId];
+      const rowId = items[itemId].rowId;
+      if (rows[rowId] === undefined || schedule.totalFloat < rows[rowId].totalFloat) {
+        rows[rowId] = { totalFloat: schedule.totalFloat, critical: schedule.critical };
+      }
+    }
+    return rows;
+  }
+
+  function calculate() {
+    const result = api.dependencies.getCriticalPath(state.get('config.chart.items'));
+    if (result.cycle.length) {
+      api.log('Critical path cannot be computed - dependency cycle found', result.cycle);
+    }
+    const data: PluginData = { ...result, rows: getRowsFloat(result) };
+    state.update(pluginPath, data);
+    options.onChange(result);
+  }
+
+  class CriticalItemAction extends Action {
+    private data;
+    private unsub: () => void;
+
+    constructor(element: HTMLElement, data) {
+      super();
+      this.data = data;
+      this.unsub = state.subscribe(`${pluginPath}.items`, () => this.highlight(element));
+    }
+
+    update(element: HTMLElement, data) {
+      this.data = data;
+      this.highlight(element);
+    }
+
+    highlight(element: HTMLElement) {
+      const schedule = state.get(`${pluginPath}.items.${this.data.item.id}`);
+      toggleClass(element, itemClassName, !!schedule && schedule.critical);
+    }
+
+    destroy(element: HTMLElement) {
+      this.unsub();
+      element.classList.remove(itemClassName);
+    }
+  }
+
+  class CriticalRowAction extends Action {
+    private data;
+    private unsub: () => void;
+
+    constructor(element: HTMLElement, data) {
+      super();
+      this.data = data;
+      this.unsub = state.subscribe(`${pluginPath}.rows`, () => this.highlight(element));
+    }
+
+    update(element: HTMLElement, data) {
+      this.data = data;
+      this.highlight(element);
+    }
+
+    highlight(element: HTMLElement) {
+      if (this.data.rowId === undefined) return;
+      const rowFloat = state.get(`${pluginPath}.rows.${this.data.rowId}`);
+      toggleClass(element, rowClassName, !!rowFloat && rowFloat.critical);
+    }
+
+    destroy(element: HTMLElement) {
+      this.unsub();
+      element.classList.remove(rowClassName);
+    }
+  }
+
+  return function initialize(vido) {
+    state = vido.state;
+    api = vido.api;
+    itemClassName = options.itemClassName || api.getClass('chart-timeline-items-row-item') + '--critical';
+    rowClassName = options.rowClassName || api.getClass('list-column-row') + '--critical';
+    state.update(pluginPath, { items: {}, rows: {}, criticalPath: [], projectFinish: 0, cycle: [] });
+    const destroy = state.subscribeAll(
+      [
+        'config.chart.items',
+        'config.chart.items.*.time',
+        'config.chart.items.*.rowId',
+        'config.chart.items.*.dependant',
+        'config.chart.items.*.linkedWith'
+      ],
+      () => {
+        calculate();
+        // list column data functions may display float values
+        vido.update();
+      },
+      { bulk: true }
+    );
+    state.update('config.actions.chart-timeline-items-row-item', actions => {
+      actions.push(CriticalItemAction);
+      return actions;
+    });
+    state.update('config.actions.list-column-row', actions => {
+      actions.push(CriticalRowAction);
+      return actions;
+    });
+    return function onDestroy() {
+      destroy();
+    };
+  };
+}
@@ -0,0 +1,235 @@
+/**
+ * Dependencies plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import { Action } from '@neuronet.io/vido/vido.esm';
+import { DependencyLink, DependencyType } from '../types';
+
+export interface Options {
+  type?: DependencyType;
+  gap?: number;
+  arrowSize?: number;
+}
+
+export interface RowPosition {
+  top: number;
+  height: number;
+  collapsed?: boolean;
+}
+
+export interface RowsPositions {
+  [rowId: string]: RowPosition;
+}
+
+const svgNS = 'http://www.w3.org/2000/svg';
+let instances = 0;
+
+export default function Dependencies(options: Options = {}) {
+  let state, api, className, lineClassName, arrowId;
+  const defaultOptions: Options = {
+    type: 'FS',
+    gap: 10,
+    arrowSize: 6
+  };
+  options = { ...defaultOptions, ...options };
+
+  /**
+   * Get vertical positions of all rows that have parents expanded (not only visible ones)
+   * so lines can be routed to items that are outside of the viewport
+   * @returns {object} positions by row id
+   */
+  function getRowsPositions(): RowsPositions {
+    const rows = state.get('_internal.list.rowsWithParentsExpanded') || [];
+    const visibleRows = state.get('_internal.list.visibleRows') || [];
+    const compensationY = api.getCompensationY();
+    const positions: RowsPositions = {};
+    let top = 0;
+    for (const row of rows) {
+      if (!row) continue;
+      positions[row.id] = { top, height: row.height };
+      top += row.height;
+    }
+    let offset = 0;
+    if (visibleRows.length && positions[visibleRows[0].id]) {
+      offset = positions[visibleRows[0].id].top - visibleRows[0].top;
+    }
+    for (const rowId in positions) {
+      positions[rowId].top += compensationY - offset;
+    }
+    return positions;
+  }
+
+  /**
+   * Get row position - rows inside collapsed parents are routed to the closest visible parent
+   * @param {string} rowId
+   * @param {object} positions
+   * @returns {object|undefined} position
+   */
+  function getRowPosition(rowId: string, positions: RowsPositions): RowPosition | undefined {
+    if (positions[rowId]) return positions[rowId];
+    const row = state.get(`_internal.flatTreeMapById.${rowId}`);
+    if (!row) return;
+    const parents = row._internal.parents;
+    for (let i = parents.length - 1; i >= 0; i--) {
+      if (positions[parents[i]]) return { ...positions[parents[i]], collapsed: true };
+    }
+  }
+
+  function getItemPosition(item, positions: RowsPositions) {
+    const rowPosition = getRowPosition(item.rowId, positions);
+    if (!rowPosition) return;
+    const timePerPixel = state.get('_internal.chart.time.timePerPixel');
+    let left = api.time.globalTimeToViewPixelOffset(item.time.start) + api.getCompensationX();
+    let width = (item.time.end - item.time.start) / timePerPixel - (state.get('config.chart.spacing') || 0);
+    if (api.isMilestone(item)) {
+      // lines are connected to the diamond corners
+      width = state.get('config.chart.milestoneSize');
+      left -= width / 2;
+    }
+    if (width < 0) width = 0;
+    return {
+      left,
+      right: left + width,
+      middle: rowPosition.top + rowPosition.height / 2,
+      rowHeight: rowPosition.height,
+      collapsed: rowPosition.collapsed
+    };
+  }
+
+  /**
+   * Get svg path definition for orthogonal line
+   * @param {number} sx source x
+   * @param {number} sy source y
+   * @param {number} sDir source direction 1 = leaving right side, -1 = leaving left side
+   * @param {number} tx target x
+   * @param {number} ty target y
+   * @param {number} tDir target direction 1 = entering left side, -1 = entering right side
+   * @param {number} rowHeight
+   * @returns {string} path definition
+   */
+  function getPath(sx: number, sy: number, sDir: number, tx: number, ty: number, tDir: number, rowHeight: number) {
+    const startX = sx + sDir * options.gap;
+    const endX = tx - tDir * options.gap;
+    const points = [[sx, sy]];
+    if (sDir !== tDir) {
+      const x = sDir === 1 ? Math.max(startX, endX) : Math.min(startX, endX);
+      points.push([x, sy], [x, ty]);
+    } else if (sDir === 1 ? endX >= startX : endX <= startX) {
+      points.push([startX, sy], [startX, ty]);
+    } else {
+      const middleY = sy === ty ? sy + rowHeight / 2 : sy + (ty - sy) / 2;
+      points.push([startX, sy], [startX, middleY], [endX, middleY], [endX, ty]);
+    }
+    points.push([tx, ty]);
+    return 'M ' + points.map(point => point.map(value => Math.round(value * 10) / 10).join(' ')).join(' L ');
+  }
+
+  function getLinePath(link: DependencyLink, from, to) {
+    const fromStart = link.type === 'SS' || link.type === 'SF';
+    const toStart = link.type === 'FS' || link.type === 'SS';
+    return getPath(
+      fromStart ? from.left : from.right,
+      from.middle,
+      fromStart ? -1 : 1,
+      toStart ? to.left : to.right,
+      to.middle,
+      toStart ? 1 : -1,
+      from.rowHeight
+    );
+  }
+
+  /**
+   * Dependency lines action - draws svg lines over chart-timeline-items
+   */
+  class DependenciesAction extends Action {
+    private svg: SVGSVGElement;
+    private lines: SVGGElement;
+    private frame = 0;
+    private unsub: () => void;
+
+    constructor(element: HTMLElement) {
+      super();
+      this.svg = document.createElementNS(svgNS, 'svg') as SVGSVGElement;
+      this.svg.classList.add(className);
+      const size = options.arrowSize;
+      this.svg.innerHTML = `<defs><marker id="${arrowId}" class="${className}-arrow" markerWidth="${size}" markerHeight="${size}" refX="${size}" refY="${size /
+        2}" orient="auto" markerUnits="userSpaceOnUse"><path d="M0,0 L${size},${size / 2} L0,${size} z" /></marker></defs>`;
+      this.lines = document.createElementNS(svgNS, 'g') as SVGGElement;
+      this.svg.appendChild(this.lines);
+      element.insertAdjacentElement('afterbegin', this.svg);
+      this.unsub = state.subscribeAll(
+        [
+          '_internal.chart.time',
+          '_internal.chart.dimensions',
+          '_internal.height',
+          'config.scroll.compensation',
+          '_internal.list.visibleRows;',
+          '_internal.list.rowsWithParentsExpanded;',
+          'config.chart.items',
+          'config.chart.items.*.time',
+          'config.chart.items.*.rowId',
+          'config.chart.items.*.type',
+          'config.chart.items.*.dependant',
+          'config.chart.items.*.linkedWith'
+        ],
+        () => this.scheduleRender(),
+        { bulk: true }
+      );
+    }
+
+    private scheduleRender() {
+      if (this.frame) return;
+      this.frame = requestAnimationFrame(() => {
+        this.frame = 0;
+        this.render();
+      });
+    }
+
+    private render() {
+      const width = state.get('_internal.chart.dimensions.width') + api.getCompensationX();
+      const height = state.get('_internal.height') + Math.abs(api.getCompensationY());
+      this.svg.setAttribute('width', String(width > 0 ? width : 0));
+      this.svg.setAttribute('height', String(height > 0 ? height : 0));
+      const items = state.get('config.chart.items');
+      const positions = getRowsPositions();
+      let paths = '';
+      for (const link of api.dependencies.getLinks(items, options.type)) {
+        const from = getItemPosition(items[link.fromId], positions);
+        const to = getItemPosition(items[link.toId], positions);
+        if (!from || !to) continue;
+        let lineClass = `${lineClassName} ${lineClassName}--${link.type}`;
+        if (from.collapsed || to.collapsed) lineClass += ` ${lineClassName}--collapsed`;
+        paths += `<path class="${lineClass}" data-from="${link.fromId}" data-to="${link.toId}" d="${getLinePath(
+          link,
+          from,
+          to
+        )}" marker-end="url(#${arrowId})" />`;
+      }
+      this.lines.innerHTML = paths;
+    }
+
+    public destroy() {
+      if (this.frame) cancelAnimationFrame(this.frame);
+      this.unsub();
+      this.svg.remove();
+    }
+  }
+
+  return function initialize(vido) {
+    state = vido.state;
+    api = vido.api;
+    className = api.getClass('chart-timeline-dependency-lines');
+    lineClassName = className + '-line';
+    arrowId = `${className}-arrow-${++instances}`;
+    state.update('config.actions.chart-timeline-items', actions => {
+      actions.push(DependenciesAction);
+      return actions;
+    });
+  };
+}
@@ -0,0 +1,368 @@
+/**
+ * Export plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import { Dayjs } from 'dayjs';
+import { Period } from '../types';
+
+export type ExportRange = 'full' | 'viewport';
+
+export interface ExportOptions {
+  range?: ExportRange;
+  from?: number;
+  to?: number;
+  list?: boolean;
+  rowsFrom?: number;
+  rowsTo?: number;
+}
+
+export interface PNGOptions extends ExportOptions {
+  pixelRatio?: number;
+}
+
+export interface ExportApi {
+  toSVG: (exportOptions?: ExportOptions) => string;
+  toPNG: (exportOptions?: PNGOptions) => Promise<Blob>;
+  download: (data: string | Blob, fileName: string) => void;
+}
+
+export interface Options {
+  fontFamily?: string;
+  fontSize?: number;
+  background?: string;
+  headerBackground?: string;
+  gridColor?: string;
+  fontColor?: string;
+  itemColor?: string;
+  itemFontColor?: string;
+  getApi?: (api: ExportApi) => void;
+}
+
+interface ExportDate {
+  from: number;
+  to: number;
+  label: string;
+}
+
+interface ExportRow {
+  row: any;
+  top: number;
+}
+
+/**
+ * Escape text for svg (xml) document
+ * @param {string} text
+ * @returns {string}
+ */
+function escape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Get plain text from string (html), number or lit-html template (calendar formats and column data can return them)
+ * @param {any} value
+ * @returns {string}
+ */
+function toText(value): string {
+  const raw = current => {
+    if (current === undefined || current === null || current === false) return '';
+    if (Array.isArray(current)) return current.map(raw).join('');
+    if (typeof current === 'object' && Array.isArray(current.strings) && Array.isArray(current.values)) {
+      return current.strings
+        .map((str, index) => str + (index < current.values.length ? raw(current.values[index]) : ''))
+        .join('');
+    }
+    return String(current);
+  };
+  return raw(value)
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export default function Export(options: Options = {}) {
+  let vido, state, api;
+  const defaultOptions: Options = {
+    fontFamily: 'Arial, Helvetica, sans-serif',
+    fontSize: 12,
+    background: '#ffffff',
+    headerBackground: '#f7f9f9',
+    gridColor: '#e8eef0',
+    fontColor: '#606060',
+    itemColor: '#E74C3C',
+    itemFontColor: '#ffffff',
+    getApi(api) {}
+  };
+  options = { ...defaultOptions, ...options };
+
+  function text(x: number, y: number, content: string, color = options.fontColor) {
+    return `<text x="${x}" y="${y}" dominant-baseline="central" fill="${color}">${escape(content)}</text>`;
+  }
+
+  /**
+   * Text clipped to its cell - nested svg clips its content
+   */
+  function cell(x: number, y: number, width: number, height: number, content: string, fill = '') {
+    const background = fill ? `<rect width="${width}" height="${height}" fill="${fill}"/>` : '';
+    const label = content ? text(6, height / 2, content) : '';
+    return `<svg x="${x}" y="${y}" width="${Math.max(width, 0)}" height="${height}">${background}${label}</svg>`;
+  }
+
+  function line(x1: number, y1: number, x2: number, y2: number) {
+    return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${options.gridColor}" stroke-width="1"/>`;
+  }
+
+  /**
+   * Get exported time range - current viewport or whole chart (not the DOM scroll position)
+   * @param {object} exportOptions
+   * @returns {object}
+   */
+  function getTimeRange(exportOptions: ExportOptions) {
+    const time = state.get('_internal.chart.time');
+    const full = exportOptions.range === 'full';
+    const from = exportOptions.from !== undefined ? +exportOptions.from : full ? time.finalFrom : time.leftGlobal;
+    const to = exportOptions.to !== undefined ? +exportOptions.to : full ? time.finalTo : time.rightGlobal;
+    return { from, to, timePerPixel: time.timePerPixel, zoom: time.zoom };
+  }
+
+  /**
+   * Rows with expanded parents - all of them, only those inside viewport (computed from scroll top)
+   * or rows between rowsFrom and rowsTo indexes (pages)
+   * @param {object} exportOptions
+   * @returns {array} rows with their top position
+   */
+  function getRows(exportOptions: ExportOptions): ExportRow[] {
+    const rows = state.get('_internal.list.rowsWithParentsExpanded') || [];
+    const { range, rowsFrom = 0, rowsTo = rows.length } = exportOptions;
+    const paged = exportOptions.rowsFrom !== undefined || exportOptions.rowsTo !== undefined;
+    const scrollTop = state.get('config.scroll.top');
+    const height = state.get('_internal.height');
+    const result: ExportRow[] = [];
+    let offset = 0,
+      top = 0;
+    rows.forEach((row, index) => {
+      if (!row) return;
+      const visible = paged
+        ? index >= rowsFrom && index < rowsTo
+        : range === 'full' || (offset + row.height > scrollTop && offset < scrollTop + height);
+      if (visible) {
+        result.push({ row, top });
+        top += row.height;
+      }
+      offset += row.height;
+    });
+    return result;
+  }
+
+  function getRowsHeight(rows: ExportRow[]): number {
+    return rows.length ? rows[rows.length - 1].top + rows[rows.length - 1].row.height : 0;
+  }
+
+  /**
+   * Generate dates of every calendar level for the time range (like calendar does for the viewport)
+   * @param {number} from
+   * @param {number} to
+   * @param {number} zoom
+   * @returns {array} dates of the levels
+   */
+  function getLevelsDates(from: number, to: number, zoom: number): ExportDate[][] {
+    const levels = [];
+    for (const level of state.get('config.chart.calendar.levels')) {
+      const formatting = level.formats.find(format => +zoom <= +format.zoomTo);
+      if (!formatting) continue;
+      const period: Period = formatting.period;
+      const dates: ExportDate[] = [];
+      let timeStart: Dayjs = api.time.date(from).startOf(period);
+      while (timeStart.valueOf() < to) {
+        const next = timeStart.add(1, period);
+        const timeEnd = next.subtract(1, 'millisecond');
+        const format = formatting.format({ timeStart, timeEnd, className: '', vido, props: { date: {}, period } });
+        dates.push({
+          from: Math.max(timeStart.valueOf(), from),
+          to: Math.min(next.valueOf(), to),
+          label: toText(format)
+        });
+        timeStart = next;
+      }
+      levels.push(dates);
+    }
+    return levels;
+  }
+
+  function getColumns() {
+    const columns = state.get('config.list.columns.data') || {};
+    return Object.keys(columns).map(id => columns[id]);
+  }
+
+  function getCellText(column, row): string {
+    const value = typeof column.data === 'function' ? column.data(row) : row[column.data];
+    return toText(value);
+  }
+
+  function renderList(rows: ExportRow[], headerHeight: number): { svg: string; width: number } {
+    const expander = state.get('config.list.expander');
+    const height = headerHeight + getRowsHeight(rows);
+    let svg = '',
+      x = 0;
+    for (const column of getColumns()) {
+      const header = column.header || {};
+      svg += cell(x, 0, column.width, headerHeight, toText(header.content || header.html), options.headerBackground);
+      for (const { row, top } of rows) {
+        const padding = column.expander ? expander.padding * (row._internal.parents.length + 1) : 0;
+        svg += cell(x + padding, headerHeight + top, column.width - padding, row.height, getCellText(column, row));
+        svg += line(x, headerHeight + top + row.height, x + column.width, headerHeight + top + row.height);
+      }
+      x += column.width;
+      svg += line(x, 0, x, height);
+    }
+    return { svg, width: x };
+  }
+
+  function renderItem(item, row, rowTop: number, from: number, to: number, timePerPixel: number) {
+    const rowLanes = state.get('_internal.list.lanes')[row.id];
+    const lane = rowLanes !== undefined && rowLanes[item.id] !== undefined ? rowLanes[item.id] : undefined;
+    const laneHeight = lane !== undefined ? api.getRowLaneHeight(row) : row.height;
+    const top = rowTop + (lane || 0) * laneHeight;
+    const color = (item.style && (item.style.background || item.style['background-color'])) || options.itemColor;
+    const label = toText(item.label);
+    if (api.isMilestone(item)) {
+      const size = state.get('config.chart.milestoneSize');
+      const x = (item.time.start - from) / timePerPixel;
+      const y = top + laneHeight / 2;
+      const half = size / 2;
+      const points = `${x},${y - half} ${x + half},${y} ${x},${y + half} ${x - half},${y}`;
+      return `<polygon points="${points}" fill="${color}"/>` + text(x + half + 4, y, label);
+    }
+    const start = Math.max(item.time.start, from);
+    const end = Math.min(item.time.end, to);
+    const x = (start - from) / timePerPixel;
+    const width = Math.max((end - start) / timePerPixel - (state.get('config.chart.spacing') || 0), 1);
+    const height = Math.max(laneHeight - 8, 1);
+    const radius = Math.min(height / 2, 18);
+    let progress = '';
+    if (typeof item.progress === 'number') {
+      const done = (width * Math.min(Math.max(item.progress, 0), 100)) / 100;
+      progress = `<rect width="${done}" height="${height}" fill="#000000" fill-opacity="0.2"/>`;
+    }
+    return (
+      `<svg x="${x}" y="${top + 4}" width="${width}" height="${height}">` +
+      `<rect width="${width}" height="${height}" rx="${radius}" ry="${radius}" fill="${color}"/>${progress}` +
+      text(10, height / 2, label, options.itemFontColor) +
+      `</svg>`
+    );
+  }
+
+  function renderChart(rows: ExportRow[], headerHeight: number, exportOptions: ExportOptions) {
+    const { from, to, timePerPixel, zoom } = getTimeRange(exportOptions);
+    const width = Math.max(Math.round((to - from) / timePerPixel), 0);
+    const rowsHeight = getRowsHeight(rows);
+    const levels = getLevelsDates(from, to, zoom);
+    const levelHeight = levels.length ? headerHeight / levels.length : headerHeight;
+    let svg = `<rect width="${width}" height="${headerHeight}" fill="${options.headerBackground}"/>`;
+    levels.forEach((dates, level) => {
+      for (const date of dates) {
+        const x = (date.from - from) / timePerPixel;
+        const dateWidth = (date.to - date.from) / timePerPixel;
+        svg += cell(x, level * levelHeight, dateWidth, levelHeight, date.label);
+        svg += line(x + dateWidth, level * levelHeight, x + dateWidth, (level + 1) * levelHeight);
+      }
+    });
+    // grid columns are the dates of the last (most detailed) level
+    for (const date of levels.length ? levels[levels.length - 1] : []) {
+      const x = (date.to - from) / timePerPixel;
+      svg += line(x, headerHeight, x, headerHeight + rowsHeight);
+    }
+    for (const { row, top } of rows) {
+      svg += line(0, headerHeight + top + row.height, width, headerHeight + top + row.height);
+    }
+    for (const { row, top } of rows) {
+      for (const item of row._internal.items) {
+        if (item.time.end < from || item.time.start > to) continue;
+        svg += renderItem(item, row, headerHeight + top, from, to, timePerPixel);
+      }
+    }
+    return { svg, width, height: headerHeight + rowsHeight };
+  }
+
+  /**
+   * Standalone svg of the list and chart
+   * @param {object} exportOptions
+   * @returns {string} svg document
+   */
+  function toSVG(exportOptions: ExportOptions = {}): string {
+    exportOptions = { range: 'viewport', list: true, ...exportOptions };
+    const headerHeight = state.get('config.headerHeight');
+    const rows = getRows(exportOptions);
+    const list = exportOptions.list ? renderList(rows, headerHeight) : { svg: '', width: 0 };
+    const chart = renderChart(rows, headerHeight, exportOptions);
+    const width = list.width + chart.width;
+    const height = chart.height;
+    return (
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ` +
+      `font-family="${escape(options.fontFamily)}" font-size="${options.fontSize}">` +
+      `<rect width="${width}" height="${height}" fill="${options.background}"/>` +
+      `<g>${list.svg}</g>` +
+      `<svg x="${list.width}" y="0" width="${chart.width}" height="${height}">${chart.svg}</svg>` +
+      `</svg>`
+    );
+  }
+
+  /**
+   * Rasterise svg through canvas
+   * @param {object} exportOptions
+   * @returns {Promise} png blob
+   */
+  function toPNG(exportOptions: PNGOptions = {}): Promise<Blob> {
+    const pixelRatio = exportOptions.pixelRatio || window.devicePixelRatio || 1;
+    const svg = toSVG(exportOptions);
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => {
+        URL.revokeObjectURL(url);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(image.width * pixelRatio);
+        canvas.height = Math.ceil(image.height * pixelRatio);
+        const context = canvas.getContext('2d');
+        context.scale(pixelRatio, pixelRatio);
+        context.drawImage(image, 0, 0);
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Export: canvas is empty'))), 'image/png');
+      };
+      image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('Export: svg could not be rendered'));
+      };
+      image.src = url;
+    });
+  }
+
+  function download(data: string | Blob, fileName: string) {
+    const blob = typeof data === 'string' ? new Blob([data], { type: 'image/svg+xml;charset=utf-8' }) : data;
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  return function initialize(mainVido) {
+    vido = mainVido;
+    state = vido.state;
+    api = vido.api;
+    options.getApi({ toSVG, toPNG, download });
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * History plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+export interface Options {
+  size?: number;
+  keyboard?: boolean;
+  getApi?: (api: HistoryApi) => void;
+}
+
+export interface HistoryApi {
+  undo: () => boolean;
+  redo: () => boolean;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  clear: () => void;
+  startTransaction: () => void;
+  endTransaction: () => void;
+}
+
+interface Change {
+  before: any;
+  after: any;
+}
+
+interface Changes {
+  [id: string]: Change;
+}
+
+interface Entry {
+  items: Changes;
+  rows: Changes;
+}
+
+interface Snapshot {
+  items: { [id: string]: any };
+  rows: { [id: string]: any };
+}
+
+// values computed by the component or by plugins - not part of the history
+const skipProperties = {
+  items: ['selected', 'selecting'],
+  rows: ['_internal', 'top', 'selected', 'selecting']
+};
+
+const pointerEventsExists = typeof PointerEvent !== 'undefined';
+
+function isObject(value) {
+  return value !== null && typeof value === 'object' && (Array.isArray(value) || value.constructor === Object);
+}
+
+function clone(value, skip: string[] = []) {
+  if (Array.isArray(value)) return value.map(current => clone(current));
+  if (!isObject(value)) return value;
+  const result = {};
+  for (const key in value) {
+    if (!skip.includes(key)) result[key] = clone(value[key]);
+  }
+  return result;
+}
+
+function isEqual(a, b): boolean {
+  if (a === b) return true;
+  if (!isObject(a) || !isObject(b) || Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a),
+    bKeys = Object.keys(b);
+  if (aKeys.length !== bKeys.length) return false;
+  for (const key of aKeys) {
+    if (!isEqual(a[key], b[key])) return false;
+  }
+  return true;
+}
+
+export default function History(options: Options = {}) {
+  let state;
+  const defaultOptions: Options = {
+    size: 100,
+    keyboard: true,
+    getApi(api) {}
+  };
+  options = { ...defaultOptions, ...options };
+  const pluginPath = 'config.plugin.History';
+
+  let undoStack: Entry[] = [],
+    redoStack: Entry[] = [],
+    last: Snapshot,
+    transactions = 0,
+    gesture = false,
+    applying = false,
+    scheduled = false;
+
+  function getSnapshot(): Snapshot {
+    const snapshot: Snapshot = { items: {}, rows: {} };
+    const items = state.get('config.chart.items') || {};
+    const rows = state.get('config.list.rows') || {};
+    for (const itemId in items) snapshot.items[itemId] = clone(items[itemId], skipProperties.items);
+    for (const rowId in rows) snapshot.rows[rowId] = clone(rows[rowId], skipProperties.rows);
+    return snapshot;
+  }
+
+  function diff(before: { [id: string]: any }, after: { [id: string]: any }): Changes {
+    const changes: Changes = {};
+    for (const id in before) {
+      if (!isEqual(before[id], after[id])) changes[id] = { before: before[id], after: after[id] };
+    }
+    for (const id in after) {
+      if (before[id] === undefined) changes[id] = { before: undefined, after: after[id] };
+    }
+    return changes;
+  }
+
+  function updatePluginState() {
+    state.update(pluginPath, {
+      canUndo: undoStack.length > 0,
+      canRedo: redoStack.length > 0,
+      size: undoStack.length
+    });
+  }
+
+  /**
+   * Save changes made since last commit as one history entry
+   */
+  function commit() {
+    scheduled = false;
+    if (applying || transactions > 0) return;
+    const current = getSnapshot();
+    const entry: Entry = { items: diff(last.items, current.items), rows: diff(last.rows, current.rows) };
+    last = current;
+    if (!Object.keys(entry.items).length && !Object.keys(entry.rows).length) return;
+    undoStack.push(entry);
+    if (undoStack.length > options.size) undoStack.shift();
+    redoStack = [];
+    updatePluginState();
+  }
+
+  /**
+   * Changes made synchronously one after another (like bulk updates) are saved as one entry
+   */
+  function scheduleCommit() {
+    if (applying || scheduled || transactions > 0) return;
+    scheduled = true;
+    Promise.resolve().then(commit);
+  }
+
+  function startTransaction() {
+    if (transactions === 0 && scheduled) commit();
+    transactions++;
+  }
+
+  function endTransaction() {
+    if (transactions === 0) return;
+    transactions--;
+    if (transactions === 0) commit();
+  }
+
+  function applyChanges(configPath: string, changes: Changes, direction: 'before' | 'after') {
+    if (!Object.keys(changes).length) return;
+    state.update(configPath, current => {
+      for (const id in changes) {
+        const value = changes[id][direction];
+        if (value === undefined) {
+          delete current[id];
+        } else {
+          current[id] = clone(value);
+        }
+      }
+      return current;
+    });
+  }
+
+  function apply(entry: Entry, direction: 'before' | 'after') {
+    applying = true;
+    applyChanges('config.list.rows', entry.rows, direction);
+    applyChanges('config.chart.items', entry.items, direction);
+    applying = false;
+    last = getSnapshot();
+  }
+
+  function undo(): boolean {
+    if (transactions > 0) return false;
+    if (scheduled) commit();
+    const entry = undoStack.pop();
+    if (!entry) return false;
+    apply(entry, 'before');
+    redoStack.push(entry);
+    updatePluginState();
+    return true;
+  }
+
+  function redo(): boolean {
+    if (transactions > 0) return false;
+    if (scheduled) commit();
+    const entry = redoStack.pop();
+    if (!entry) return false;
+    apply(entry, 'after');
+    undoStack.push(entry);
+    updatePluginState();
+    return true;
+  }
+
+  function clear() {
+    undoStack = [];
+    redoStack = [];
+    last = getSnapshot();
+    updatePluginState();
+  }
+
+  /**
+   * Whole drag gesture (pointer down - pointer up) is one transaction
+   */
+  function pointerDown() {
+    if (gesture) return;
+    gesture = true;
+    startTransaction();
+  }
+
+  function pointerUp() {
+    if (!gesture) return;
+    gesture = false;
+    // let other pointer up handlers (plugins) finish their updates first
+    setTimeout(endTransaction, 0);
+  }
+
+  function onKeyDown(ev: KeyboardEvent) {
+    if (!(ev.ctrlKey || ev.metaKey) || ev.altKey) return;
+    const target = ev.target as HTMLElement;
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+    const key = ev.key.toLowerCase();
+    let done = false;
+    if (key === 'z' && !ev.shiftKey) {
+      done = undo();
+    } else if ((key === 'z' && ev.shiftKey) || key === 'y') {
+      done = redo();
+    } else {
+      return;
+    }
+    if (done) ev.preventDefault();
+  }
+
+  const downEvents = pointerEventsExists ? ['pointerdown'] : ['mousedown', 'touchstart'];
+  const upEvents = pointerEventsExists ? ['pointerup', 'pointercancel'] : ['mouseup', 'touchend', 'touchcancel'];
+
+  return function initialize(vido) {
+    state = vido.state;
+    last = getSnapshot();
+    updatePluginState();
+    const unsub = state.subscribeAll(['config.chart.items', 'config.list.rows'], scheduleCommit, { bulk: true });
+    for (const eventName of downEvents) document.addEventListener(eventName, pointerDown, true);
+    for (const eventName of upEvents) document.addEventListener(eventName, pointerUp, true);
+    if (options.keyboard) document.addEventListener('keydown', onKeyDown);
+    options.getApi({
+      undo,
+      redo,
+      canUndo: () => undoStack.length > 0,
+      canRedo: () => redoStack.length > 0,
+      clear,
+      startTransaction,
+      endTransaction
+    });
+    return function onDestroy() {
+      unsub();
+      for (const eventName of downEvents) document.removeEventListener(eventName, pointerDown, true);
+      for (const eventName of upEvents) document.removeEventListener(eventName, pointerUp, true);
+      if (options.keyboard) document.removeEventListener('keydown', onKeyDown);
+    };
+  };
+}
@@ -0,0 +1,614 @@
+/**
+ * ICalendar plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import { Row, Item, Items } from '../types';
+
+export interface ImportError {
+  line: number;
+  message: string;
+}
+
+export interface ImportResult {
+  items: Items;
+  errors: ImportError[];
+}
+
+export interface ICalendarApi {
+  export: (items?: Item[]) => string;
+  parse: (ics: string) => ImportResult;
+  import: (ics: string) => ImportResult;
+}
+
+export interface Options {
+  rowProperty?: 'CATEGORIES' | 'RESOURCES';
+  rowValue?: (row: Row) => string;
+  defaultRowId?: string;
+  prodId?: string;
+  createId?: (uid: string, occurrence: number | null) => string;
+  onImportError?: (errors: ImportError[]) => void;
+  getApi?: (api: ICalendarApi) => void;
+}
+
+interface Property {
+  name: string;
+  params: { [name: string]: string };
+  value: string;
+  line: number;
+}
+
+interface Event {
+  line: number;
+  properties: Property[];
+}
+
+/**
+ * Date value - wall is a wall clock time in milliseconds (Date.UTC of the date parts),
+ * zone is 'utc', 'floating' (time of the chart) or TZID
+ */
+interface DateValue {
+  wall: number;
+  date: boolean;
+  zone: string;
+}
+
+interface ByDay {
+  ordinal: number;
+  weekday: number;
+}
+
+interface Rule {
+  freq: string;
+  interval: number;
+  count?: number;
+  until?: number;
+  byMonth?: number[];
+  byMonthDay?: number[];
+  byDay?: ByDay[];
+  weekStart: number;
+}
+
+const day = 24 * 60 * 60 * 1000;
+const weekdays = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const unsupportedRuleParts = ['BYSECOND', 'BYMINUTE', 'BYHOUR', 'BYYEARDAY', 'BYWEEKNO', 'BYSETPOS'];
+// safety limit for rules that are never matched (BYMONTHDAY=30;BYMONTH=2 for example)
+const maxPeriods = 100000;
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (match, char) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Content lines longer than 75 characters are folded
+ * @param {string} line
+ * @returns {string}
+ */
+function fold(line: string): string {
+  const parts = [line.slice(0, 75)];
+  for (let index = 75; index < line.length; index += 74) parts.push(' ' + line.slice(index, index + 74));
+  return parts.join('\r\n');
+}
+
+/**
+ * Unfold and parse content lines with line numbers where they start
+ * @param {string} text
+ * @returns {array} properties
+ */
+function parseProperties(text: string): Property[] {
+  const properties: Property[] = [];
+  const lines: { line: number; content: string }[] = [];
+  text.split(/\r\n|\n|\r/).forEach((content, index) => {
+    if ((content.startsWith(' ') || content.startsWith('\t')) && lines.length) {
+      lines[lines.length - 1].content += content.slice(1);
+    } else if (content.trim() !== '') {
+      lines.push({ line: index + 1, content });
+    }
+  });
+  for (const { line, content } of lines) {
+    // colon inside quoted parameter value does not end the name
+    let quoted = false,
+      index = 0;
+    for (; index < content.length; index++) {
+      if (content[index] === '"') quoted = !quoted;
+      else if (content[index] === ':' && !quoted) break;
+    }
+    const [name, ...params] = content.slice(0, index).split(';');
+    const property: Property = { name: name.toUpperCase(), params: {}, value: content.slice(index + 1), line };
+    for (const param of params) {
+      const [paramName, ...value] = param.split('=');
+      property.params[paramName.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+    }
+    properties.push(property);
+  }
+  return properties;
+}
+
+function getDateParts(wall: number) {
+  const date = new Date(wall);
+  return [
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds()
+  ];
+}
+
+const zoneFormats = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Offset of the timezone at given time in milliseconds (throws for unknown timezone)
+ * @param {number} time
+ * @param {string} timeZone
+ * @returns {number}
+ */
+function getZoneOffset(time: number, timeZone: string): number {
+  if (!zoneFormats.has(timeZone)) {
+    zoneFormats.set(
+      timeZone,
+      new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hour12: false,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric'
+      })
+    );
+  }
+  const values: { [type: string]: number } = {};
+  for (const part of zoneFormats.get(timeZone).formatToParts(time)) values[part.type] = +part.value;
+  const wall = Date.UTC(values.year, values.month - 1, values.day, values.hour % 24, values.minute, values.second);
+  return wall - (time - (time % 1000));
+}
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    getZoneOffset(0, timeZone);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value);
+  if (!match) return null;
+  const [, sign, weeks = 0, days = 0, hours = 0, minutes = 0, seconds = 0] = match;
+  const duration = (+weeks * 7 + +days) * day + ((+hours * 60 + +minutes) * 60 + +seconds) * 1000;
+  return sign === '-' ? -duration : duration;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function getWeekday(wall: number): number {
+  return new Date(wall).getUTCDay();
+}
+
+export default function ICalendar(options: Options = {}) {
+  let state, api;
+  const defaultOptions: Options = {
+    rowProperty: 'CATEGORIES',
+    rowValue(row) {
+      return typeof row['label'] === 'string' ? row['label'] : row.id;
+    },
+    defaultRowId: undefined,
+    prodId: '-//neuronet.io//gantt-schedule-timeline-calendar//EN',
+    createId(uid, occurrence) {
+      // dots are path delimiters in state
+      return (occurrence === null ? uid : `${uid}-${occurrence}`).replace(/\./g, '-');
+    },
+    onImportError(errors) {},
+    getApi(api) {}
+  };
+  options = { ...defaultOptions, ...options };
+
+  function formatUTC(time: number): string {
+    return new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+  }
+
+  /**
+   * Items that are lasting whole days (in utcMode or local time) are exported as dates
+   * @param {object} item
+   * @returns {array} DTSTART and DTEND lines
+   */
+  function getEventTime(item: Item): string[] {
+    const start = item.time.start;
+    const end = api.isMilestone(item) ? start : item.time.end + 1;
+    const isDay = time =>
+      api.time
+        .date(time)
+        .startOf('day')
+        .valueOf() === time;
+    if (isDay(start) && isDay(end) && end > start) {
+      return [
+        `DTSTART;VALUE=DATE:${api.time.date(start).format('YYYYMMDD')}`,
+        `DTEND;VALUE=DATE:${api.time.date(end).format('YYYYMMDD')}`
+      ];
+    }
+    return [`DTSTART:${formatUTC(start)}`, `DTEND:${formatUTC(end)}`];
+  }
+
+  /**
+   * Export items as VEVENTs - row is exported as category or resource
+   * @param {array} items (all items by default)
+   * @returns {string} ics
+   */
+  function exportICS(items?: Item[]): string {
+    if (!items) items = Object.values(state.get('config.chart.items'));
+    const rows = state.get('config.list.rows');
+    const stamp = formatUTC(Date.now());
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${options.prodId}`, 'CALSCALE:GREGORIAN'];
+    for (const item of items) {
+      lines.push('BEGIN:VEVENT', `UID:${item.id}`, `DTSTAMP:${stamp}`, ...getEventTime(item));
+      lines.push(`SUMMARY:${escapeText(String(item.label))}`);
+      const row = rows[item.rowId];
+      if (row) lines.push(`${options.rowProperty}:${escapeText(String(options.rowValue(row)))}`);
+      lines.push('END:VEVENT');
+    }
+    lines.push('END:VCALENDAR');
+    return lines.map(fold).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Date or date-time value (floating time is in the time of the chart - utc or local)
+   * @param {object} property
+   * @returns {object|null}
+   */
+  function parseDate(property: Property, value = property.value): DateValue | null {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+    if (!match) return null;
+    const [, year, month, date, hour, minute, second, utc] = match;
+    const wall = Date.UTC(+year, +month - 1, +date, +(hour || 0), +(minute || 0), +(second || 0));
+    const dateOnly = hour === undefined;
+    let zone = 'floating';
+    if (utc) zone = 'utc';
+    else if (!dateOnly && property.params.TZID && isTimeZone(property.params.TZID)) zone = property.params.TZID;
+    return { wall, date: dateOnly, zone };
+  }
+
+  function toTime(wall: number, zone: string): number {
+    if (zone === 'utc' || (zone === 'floating' && state.get('config.utcMode'))) return wall;
+    if (zone === 'floating') {
+      const [year, month, date, hour, minute, second] = getDateParts(wall);
+      return new Date(year, month, date, hour, minute, second).getTime();
+    }
+    // offset could change at the resulting time (daylight saving time) so it is checked again
+    const time = wall - getZoneOffset(wall, zone);
+    return wall - getZoneOffset(time, zone);
+  }
+
+  function parseRule(value: string, start: DateValue): Rule | string {
+    const parts: { [name: string]: string } = {};
+    for (const part of value.split(';')) {
+      const [name, partValue] = part.split('=');
+      parts[name.toUpperCase()] = partValue;
+    }
+    if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(parts.FREQ)) return `Unsupported RRULE FREQ '${parts.FREQ}'`;
+    const unsupported = unsupportedRuleParts.find(name => parts[name] !== undefined);
+    if (unsupported) return `Unsupported RRULE part '${unsupported}'`;
+    const numbers = (text: string) => text.split(',').map(Number);
+    const rule: Rule = {
+      freq: parts.FREQ,
+      interval: parts.INTERVAL ? +parts.INTERVAL : 1,
+      weekStart: parts.WKST ? weekdays.indexOf(parts.WKST) : 1
+    };
+    if (parts.COUNT) rule.count = +parts.COUNT;
+    if (parts.BYMONTH) rule.byMonth = numbers(parts.BYMONTH).map(month => month - 1);
+    if (parts.BYMONTHDAY) rule.byMonthDay = numbers(parts.BYMONTHDAY);
+    if (parts.BYDAY) {
+      rule.byDay = parts.BYDAY.split(',').map(byDay => {
+        const match = /^([+-]?\d+)?([A-Z]{2})$/.exec(byDay);
+        return match ? { ordinal: match[1] ? +match[1] : 0, weekday: weekdays.indexOf(match[2]) } : null;
+      });
+      if (rule.byDay.some(byDay => byDay === null || byDay.weekday === -1)) {
+        return `Invalid RRULE BYDAY '${parts.BYDAY}'`;
+      }
+    }
+    if (parts.UNTIL) {
+      const until = parseDate({ name: 'UNTIL', params: {}, value: parts.UNTIL, line: 0 });
+      if (!until) return `Invalid RRULE UNTIL '${parts.UNTIL}'`;
+      // date only UNTIL is inclusive
+      rule.until = until.date ? toTime(until.wall + day - 1, start.zone) : toTime(until.wall, until.zone);
+    }
+    if (isNaN(rule.interval) || rule.interval < 1 || isNaN(rule.count === undefined ? 0 : rule.count)) {
+      return `Invalid RRULE '${value}'`;
+    }
+    return rule;
+  }
+
+  /**
+   * Days of the month (wall time) matching BYMONTHDAY and BYDAY
+   */
+  function getMonthDays(rule: Rule, year: number, month: number, start: DateValue): number[] {
+    const length = daysInMonth(year, month);
+    const wall = (date: number) => Date.UTC(year, month, date);
+    let dates: number[];
+    if (rule.byMonthDay) {
+      dates = rule.byMonthDay
+        .map(date => (date < 0 ? length + date + 1 : date))
+        .filter(date => date > 0 && date <= length);
+      if (rule.byDay) dates = dates.filter(date => rule.byDay.some(byDay => byDay.weekday === getWeekday(wall(date))));
+    } else if (rule.byDay) {
+      dates = [];
+      for (const byDay of rule.byDay) {
+        const matching = [];
+        for (let date = 1; date <= length; date++) {
+          if (getWeekday(wall(date)) === byDay.weekday) matching.push(date);
+        }
+        if (byDay.ordinal > 0) dates.push(matching[byDay.ordinal - 1]);
+        else if (byDay.ordinal < 0) dates.push(matching[matching.length + byDay.ordinal]);
+        else dates.push(...matching);
+      }
+    } else {
+      dates = [new Date(start.wall).getUTCDate()];
+    }
+    return dates.filter(date => date !== undefined && date <= length).map(wall);
+  }
+
+  /**
+   * Candidate days (wall time at midnight) of the period (day, week, month or year) with given index
+   */
+  function getPeriodDays(rule: Rule, start: DateValue, period: number): number[] {
+    const [year, month] = getDateParts(start.wall);
+    const startDay = start.wall - (start.wall % day);
+    const inMonth = (wall: number) => !rule.byMonth || rule.byMonth.includes(new Date(wall).getUTCMonth());
+    switch (rule.freq) {
+      case 'DAILY': {
+        const wall = startDay + period * rule.interval * day;
+        const date = new Date(wall).getUTCDate();
+        if (rule.byMonthDay && !rule.byMonthDay.includes(date)) return [];
+        if (rule.byDay && !rule.byDay.some(byDay => byDay.weekday === getWeekday(wall))) return [];
+        return inMonth(wall) ? [wall] : [];
+      }
+      case 'WEEKLY': {
+        const weekStart = startDay - ((getWeekday(startDay) - rule.weekStart + 7) % 7) * day;
+        const week = weekStart + period * rule.interval * 7 * day;
+        const days = rule.byDay ? rule.byDay.map(byDay => byDay.weekday) : [getWeekday(startDay)];
+        return days.map(weekday => week + ((weekday - rule.weekStart + 7) % 7) * day).filter(inMonth);
+      }
+      case 'MONTHLY': {
+        const months = month + period * rule.interval;
+        const current = new Date(Date.UTC(year, months, 1));
+        if (!inMonth(current.getTime())) return [];
+        return getMonthDays(rule, current.getUTCFullYear(), current.getUTCMonth(), start);
+      }
+      case 'YEARLY': {
+        const days = [];
+        for (const current of rule.byMonth || [month]) {
+          days.push(...getMonthDays(rule, year + period * rule.interval, current, start));
+        }
+        return days;
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Occurrences (start wall times) of the recurring event until window end
+   * @param {object} rule
+   * @param {object} start
+   * @param {number} to window end
+   * @returns {array}
+   */
+  function expand(rule: Rule, start: DateValue, to: number): number[] {
+    const occurrences = [];
+    const timeOfDay = start.wall % day;
+    let count = 0;
+    for (let period = 0; period < maxPeriods; period++) {
+      const days = getPeriodDays(rule, start, period).sort((a, b) => a - b);
+      for (const wall of days.map(current => current + timeOfDay)) {
+        if (wall < start.wall || occurrences.includes(wall)) continue;
+        const time = toTime(wall, start.zone);
+        if (rule.until !== undefined && time > rule.until) return occurrences;
+        if (rule.count !== undefined && count >= rule.count) return occurrences;
+        if (time > to) return occurrences;
+        count++;
+        occurrences.push(wall);
+      }
+    }
+    return occurrences;
+  }
+
+  function getEvents(ics: string, errors: ImportError[]): Event[] {
+    const events: Event[] = [];
+    const stack: string[] = [];
+    let event: Event | null = null;
+    for (const property of parseProperties(ics)) {
+      if (property.name === 'BEGIN') {
+        stack.push(property.value.toUpperCase());
+        if (property.value.toUpperCase() === 'VEVENT') event = { line: property.line, properties: [] };
+      } else if (property.name === 'END') {
+        if (stack.pop() !== property.value.toUpperCase()) {
+          errors.push({ line: property.line, message: `Unexpected END:${property.value}` });
+          return events;
+        }
+        if (property.value.toUpperCase() === 'VEVENT') {
+          events.push(event);
+          event = null;
+        }
+      } else if (event && stack[stack.length - 1] === 'VEVENT') {
+        event.properties.push(property);
+      }
+    }
+    if (!stack.length && !events.length) errors.push({ line: 1, message: 'There is no VCALENDAR' });
+    if (stack.length) errors.push({ line: 1, message: `Missing END:${stack[stack.length - 1]}` });
+    return events;
+  }
+
+  /**
+   * Row from category or resource (row id or rowValue) - defaultRowId is used when there is no such row
+   */
+  function getRowId(event: Event): string | null {
+    const rows = state.get('config.list.rows');
+    const values = event.properties
+      .filter(property => property.name === options.rowProperty)
+      .map(property => (property.value.match(/(\\.|[^,])+/g) || []).map(unescapeText))
+      .reduce((all, current) => all.concat(current), []);
+    for (const value of values) {
+      if (rows[value] !== undefined) return value;
+      for (const rowId in rows) {
+        if (String(options.rowValue(rows[rowId])) === value) return rowId;
+      }
+    }
+    if (options.defaultRowId !== undefined && rows[options.defaultRowId] !== undefined) return options.defaultRowId;
+    return null;
+  }
+
+  /**
+   * Parse and validate events - recurring events are expanded into items within config.chart.time from - to
+   * @param {string} ics
+   * @returns {object} items and errors
+   */
+  function parse(ics: string): ImportResult {
+    const errors: ImportError[] = [];
+    const items: Items = {};
+    const { from, to } = state.get('config.chart.time');
+    const events = getEvents(ics, errors);
+    // overridden occurrences (RECURRENCE-ID) are not expanded from the rule
+    const overridden: { [uid: string]: number[] } = {};
+    for (const event of events) {
+      const uid = event.properties.find(property => property.name === 'UID');
+      const recurrenceId = event.properties.find(property => property.name === 'RECURRENCE-ID');
+      const date = recurrenceId && parseDate(recurrenceId);
+      if (uid && date) {
+        if (!overridden[uid.value]) overridden[uid.value] = [];
+        overridden[uid.value].push(toTime(date.wall, date.zone));
+      }
+    }
+    for (const event of events) {
+      const get = (name: string) => event.properties.find(property => property.name === name);
+      const error = (message: string, property?: Property) =>
+        errors.push({ line: property ? property.line : event.line, message });
+      const uid = get('UID');
+      if (!uid || !uid.value.trim()) {
+        error('Missing UID');
+        continue;
+      }
+      const rowId = getRowId(event);
+      if (rowId === null) {
+        const row = get(options.rowProperty);
+        error(row ? `Unknown row '${unescapeText(row.value)}'` : `Missing ${options.rowProperty}`, row);
+        continue;
+      }
+      const dtStart = get('DTSTART');
+      const start = dtStart && parseDate(dtStart);
+      if (!start) {
+        error(dtStart ? `Invalid DTSTART '${dtStart.value}'` : 'Missing DTSTART', dtStart);
+        continue;
+      }
+      const dtEnd = get('DTEND');
+      const durationProperty = get('DURATION');
+      let endWall: number;
+      if (dtEnd) {
+        const end = parseDate(dtEnd);
+        if (!end) {
+          error(`Invalid DTEND '${dtEnd.value}'`, dtEnd);
+          continue;
+        }
+        endWall =
+          end.zone === start.zone
+            ? end.wall
+            : start.wall + toTime(end.wall, end.zone) - toTime(start.wall, start.zone);
+      } else if (durationProperty) {
+        const duration = parseDuration(durationProperty.value);
+        if (duration === null) {
+          error(`Invalid DURATION '${durationProperty.value}'`, durationProperty);
+          continue;
+        }
+        endWall = start.wall + duration;
+      } else {
+        endWall = start.date ? start.wall + day : start.wall;
+      }
+      if (endWall < start.wall) {
+        error('End is before start', dtEnd || durationProperty);
+        continue;
+      }
+      const summary = get('SUMMARY');
+      const label = summary ? unescapeText(summary.value) : '';
+      const recurrenceId = get('RECURRENCE-ID');
+      const rrule = get('RRULE');
+      let occurrences: (number | null)[] = [null];
+      if (rrule && !recurrenceId) {
+        const rule = parseRule(rrule.value, start);
+        if (typeof rule === 'string') {
+          error(rule, rrule);
+          continue;
+        }
+        if (!from || !to) {
+          error('Recurring events are expanded within config.chart.time from - to which are not set', rrule);
+          continue;
+        }
+        const excluded = (overridden[uid.value] || []).slice();
+        for (const exDate of event.properties.filter(property => property.name === 'EXDATE')) {
+          for (const value of exDate.value.split(',')) {
+            const date = parseDate(exDate, value);
+            if (date && date.date) excluded.push(toTime(date.wall + (start.wall % day), start.zone));
+            else if (date) excluded.push(toTime(date.wall, date.zone));
+          }
+        }
+        occurrences = expand(rule, start, to)
+          .filter(wall => toTime(wall + endWall - start.wall, start.zone) >= from)
+          .filter(wall => !excluded.includes(toTime(wall, start.zone)));
+      }
+      for (const occurrence of occurrences) {
+        const wall = occurrence === null ? start.wall : occurrence;
+        const startTime = toTime(wall, start.zone);
+        const endTime = toTime(wall + endWall - start.wall, start.zone);
+        let recurrence = occurrence === null ? null : startTime;
+        if (recurrenceId) {
+          const date = parseDate(recurrenceId);
+          recurrence = date ? toTime(date.wall, date.zone) : null;
+        }
+        const id = options.createId(uid.value.trim(), recurrence);
+        if (items[id] !== undefined) {
+          error(`Duplicate item id '${id}'`, uid);
+          continue;
+        }
+        const time = { start: startTime, end: endTime === startTime ? endTime : endTime - 1 };
+        items[id] = { id, rowId, label, time };
+      }
+    }
+    return { items, errors };
+  }
+
+  /**
+   * Add imported items (items with the same id are replaced) - nothing is changed when there are errors
+   * @param {string} ics
+   * @returns {object} items and errors
+   */
+  function importICS(ics: string): ImportResult {
+    const result = parse(ics);
+    if (result.errors.length) {
+      options.onImportError(result.errors);
+      return result;
+    }
+    state.update('config.chart.items', items => ({ ...items, ...result.items }));
+    return result;
+  }
+
+  return function initialize(vido) {
+    state = vido.state;
+    api = vido.api;
+    options.getApi({ export: exportICS, parse, import: importICS });
+  };
+}
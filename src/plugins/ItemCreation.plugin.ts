@@ -0,0 +1,294 @@
+/**
+ * ItemCreation plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import { Action } from '@neuronet.io/vido/vido.esm';
+import { Item } from '../types';
+
+export type ModifierKey = 'shift' | 'alt' | 'ctrl' | 'meta';
+
+export type BeforeCreateResult = boolean | Item | void;
+
+export interface Options {
+  label?: string;
+  threshold?: number;
+  modifierKey?: ModifierKey | null;
+  createId?: () => string;
+  beforeCreate?: (item: Item, context: { row: any; vido: any }) => BeforeCreateResult | Promise<BeforeCreateResult>;
+  onCreate?: (item: Item) => void;
+  onCollision?: (item: Item) => void;
+}
+
+interface Creation {
+  rowId: string;
+  blockElement: HTMLElement;
+  startX: number;
+  fromTime: number;
+  start: number;
+  end: number;
+  started: boolean;
+  pending: boolean;
+}
+
+const pointerEventsExists = typeof PointerEvent !== 'undefined';
+
+export default function ItemCreation(options: Options = {}) {
+  let vido, state, api;
+  const defaultOptions: Options = {
+    label: 'New item',
+    threshold: 3,
+    modifierKey: null,
+    createId() {
+      const items = state.get('config.chart.items');
+      let index = 1;
+      while (items[`new-${index}`] !== undefined) index++;
+      return `new-${index}`;
+    },
+    beforeCreate(item, context) {
+      return true;
+    },
+    onCreate(item) {},
+    onCollision(item) {}
+  };
+  options = { ...defaultOptions, ...options };
+
+  const preview = document.createElement('div');
+  let creation: Creation | null = null;
+
+  function getPeriod() {
+    return state.get('_internal.chart.time.period');
+  }
+
+  function getTimeUnderPointer(clientX: number) {
+    const time = state.get('_internal.chart.time');
+    const timeline: HTMLElement = state.get('_internal.elements.chart-timeline');
+    const x = clientX - timeline.getBoundingClientRect().left - api.getCompensationX();
+    return time.leftGlobal + x * time.timePerPixel;
+  }
+
+  /**
+   * Snap times to the whole periods - end is the last millisecond of the period (like items end)
+   * @param {number} from time of the block where creation started
+   * @param {number} to time under the pointer
+   */
+  function setTimes(from: number, to: number) {
+    const period = getPeriod();
+    const first = Math.min(from, to);
+    const last = Math.max(from, to);
+    creation.start = api.time
+      .date(first)
+      .startOf(period)
+      .valueOf();
+    creation.end =
+      api.time
+        .date(last)
+        .startOf(period)
+        .add(1, period)
+        .valueOf() - 1;
+  }
+
+  function updatePreview() {
+    const timeline: HTMLElement = state.get('_internal.elements.chart-timeline');
+    if (!creation || !creation.started || !timeline) return;
+    const time = state.get('_internal.chart.time');
+    const timelineRect = timeline.getBoundingClientRect();
+    const blockRect = creation.blockElement.getBoundingClientRect();
+    if (preview.parentNode !== timeline) timeline.appendChild(preview);
+    preview.style.left = api.time.globalTimeToViewPixelOffset(creation.start) + api.getCompensationX() + 'px';
+    preview.style.width = (creation.end + 1 - creation.start) / time.timePerPixel + 'px';
+    preview.style.top = blockRect.top - timelineRect.top + 'px';
+    preview.style.height = blockRect.height + 'px';
+    preview.style.visibility = 'visible';
+  }
+
+  function stop() {
+    creation = null;
+    preview.style.visibility = 'hidden';
+    preview.remove();
+  }
+
+  function isCollision(item: Item) {
+    const isItemMovementCollision = state.get('_internal.plugin.ItemMovement.isCollision');
+    if (typeof isItemMovementCollision !== 'function') return false;
+    return isItemMovementCollision(item.rowId, item.id, item.time.start, item.time.end);
+  }
+
+  function insert(item: Item) {
+    if (isCollision(item)) {
+      options.onCollision(item);
+      return;
+    }
+    state.update('config.chart.items', items => {
+      items[item.id] = item;
+      return items;
+    });
+    options.onCreate(item);
+  }
+
+  /**
+   * Create item from current preview - beforeCreate can veto item, modify it or return a new one (also as Promise)
+   */
+  function create() {
+    const row = state.get(`_internal.flatTreeMapById.${creation.rowId}`);
+    const item: Item = {
+      id: options.createId(),
+      rowId: creation.rowId,
+      label: options.label,
+      time: { start: creation.start, end: creation.end }
+    };
+    const result = options.beforeCreate(item, { row, vido });
+    const finish = (current: BeforeCreateResult) => {
+      if (current === false) return;
+      insert(typeof current === 'object' && current !== null ? current : item);
+    };
+    if (result && typeof (result as Promise<BeforeCreateResult>).then === 'function') {
+      // keep preview visible until the hook is resolved - pointer and keyboard are ignored meanwhile
+      creation.pending = true;
+      (result as Promise<BeforeCreateResult>).then(finish).then(stop, stop);
+      return;
+    }
+    finish(result as BeforeCreateResult);
+    stop();
+  }
+
+  function onPointerMove(ev: Event) {
+    if (!creation || creation.pending) return;
+    const normalized = api.normalizePointerEvent(ev);
+    if (!creation.started) {
+      if (Math.abs(normalized.clientX - creation.startX) < options.threshold) return;
+      creation.started = true;
+    }
+    ev.preventDefault();
+    setTimes(creation.fromTime, getTimeUnderPointer(normalized.clientX));
+    updatePreview();
+  }
+
+  function onPointerUp() {
+    if (!creation || creation.pending) return;
+    if (!creation.started) return stop();
+    create();
+  }
+
+  function onKeyDown(ev: KeyboardEvent) {
+    if (ev.key === 'Escape' && creation && !creation.pending) stop();
+  }
+
+  function isModifierPressed(ev: MouseEvent | TouchEvent) {
+    switch (options.modifierKey) {
+      case 'shift':
+        return ev.shiftKey;
+      case 'alt':
+        return ev.altKey;
+      case 'ctrl':
+        return ev.ctrlKey;
+      case 'meta':
+        return ev.metaKey;
+    }
+    return true;
+  }
+
+  /**
+   * Block covered by items of the row - new item would collide there so drag is left for other plugins (Selection)
+   * @param {object} data grid block data
+   * @returns {boolean}
+   */
+  function isEmptyBlock(data) {
+    const items = data.row._internal ? data.row._internal.items : [];
+    return !items.some(item => item.time.start <= data.time.rightGlobal && item.time.end >= data.time.leftGlobal);
+  }
+
+  /**
+   * Grid block action - press and drag across blocks of the row creates new item
+   */
+  class ItemCreationAction extends Action {
+    private data;
+    private down: (ev: Event) => void;
+    private stopPropagation: (ev: Event) => void;
+
+    constructor(element: HTMLElement, data) {
+      super();
+      this.data = data;
+
+      this.down = ev => {
+        if (creation) return;
+        if ((ev.type === 'pointerdown' || ev.type === 'mousedown') && (ev as MouseEvent).button !== 0) return;
+        // touch events have no modifier keys so items are created with touch only without modifierKey
+        if (!isModifierPressed(ev as MouseEvent | TouchEvent)) return;
+        // without modifier key only drag started on empty block creates item
+        if (!options.modifierKey && !isEmptyBlock(this.data)) return;
+        const row = this.data.row;
+        if (row.hasOwnProperty('creatable') && !row.creatable) return;
+        creation = {
+          rowId: row.id,
+          blockElement: element,
+          startX: api.normalizePointerEvent(ev).clientX,
+          fromTime: this.data.time.leftGlobal,
+          start: 0,
+          end: 0,
+          started: false,
+          pending: false
+        };
+        setTimes(creation.fromTime, creation.fromTime);
+      };
+
+      // selection should not start while item is created
+      this.stopPropagation = ev => {
+        if (creation && creation.blockElement === element) ev.stopPropagation();
+      };
+
+      if (pointerEventsExists) {
+        element.addEventListener('pointerdown', this.down);
+      } else {
+        element.addEventListener('mousedown', this.down);
+        element.addEventListener('touchstart', this.down);
+      }
+      element.addEventListener('mousedown', this.stopPropagation);
+      element.addEventListener('touchstart', this.stopPropagation);
+    }
+
+    update(element: HTMLElement, data) {
+      this.data = data;
+    }
+
+    destroy(element: HTMLElement) {
+      if (pointerEventsExists) {
+        element.removeEventListener('pointerdown', this.down);
+      } else {
+        element.removeEventListener('mousedown', this.down);
+        element.removeEventListener('touchstart', this.down);
+      }
+      element.removeEventListener('mousedown', this.stopPropagation);
+      element.removeEventListener('touchstart', this.stopPropagation);
+    }
+  }
+
+  const moveEvents = pointerEventsExists ? ['pointermove'] : ['mousemove', 'touchmove'];
+  const upEvents = pointerEventsExists ? ['pointerup', 'pointercancel'] : ['mouseup', 'touchend'];
+
+  return function initialize(mainVido) {
+    vido = mainVido;
+    state = vido.state;
+    api = vido.api;
+    preview.classList.add(api.getClass('chart-timeline-item-creation-preview'));
+    preview.style.visibility = 'hidden';
+    state.update('config.actions.chart-timeline-grid-row-block', actions => {
+      actions.push(ItemCreationAction);
+      return actions;
+    });
+    for (const eventName of moveEvents) document.addEventListener(eventName, onPointerMove);
+    for (const eventName of upEvents) document.addEventListener(eventName, onPointerUp);
+    document.addEventListener('keydown', onKeyDown);
+    return function onDestroy() {
+      for (const eventName of moveEvents) document.removeEventListener(eventName, onPointerMove);
+      for (const eventName of upEvents) document.removeEventListener(eventName, onPointerUp);
+      document.removeEventListener('keydown', onKeyDown);
+      preview.remove();
+    };
+  };
+}
@@ -8,21 +8,39 @@
  * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
  */
 
+import { ItemTime, ItemsTimes, RescheduleMode, Resizable } from '../types';
+
+export type SnapMode = 'period' | 'grid' | 'items' | 'today' | number;
+
+export type ModifierKey = 'shift' | 'alt' | 'ctrl' | 'meta';
+
+export type ResizeSide = 'left' | 'right';
+
 export interface Options {
   moveable?: boolean | string;
-  resizable?: boolean;
+  resizable?: Resizable;
   resizerContent?: string;
+  minDuration?: number;
+  maxDuration?: number;
   collisionDetection?: boolean;
   outOfBorders?: boolean;
   snapStart?: (timeStart: number, startDiff: number, item: object) => number;
   snapEnd?: (timeEnd: number, endDiff: number, item: object) => number;
+  snap?: SnapMode | SnapMode[] | false;
+  snapDistance?: number;
+  snapModifierKey?: ModifierKey | null;
+  snapGuide?: boolean;
+  workingTime?: boolean;
   ghostNode?: boolean;
   wait?: number;
+  reschedule?: boolean | RescheduleMode;
+  onDependencyCycle?: (itemsIds: string[]) => void;
 }
 
 export interface Movement {
   moving: boolean;
   resizing: boolean;
+  resizeSide?: ResizeSide;
   waiting: boolean;
   ghost?: HTMLElement;
   itemLeftCompensation?: number;
@@ -32,13 +50,36 @@ export interface Movement {
   ganttLeft?: number;
 }
 
+export interface Snap {
+  diff: number;
+  time: number;
+}
+
+export interface GroupMember {
+  id: string;
+  rowId: string;
+  rowIndex: number;
+  time: ItemTime;
+}
+
+export interface GroupChange {
+  rowId: string;
+  time: ItemTime;
+}
+
+export interface GroupChanges {
+  [itemId: string]: GroupChange;
+}
+
 const pointerEventsExists = typeof PointerEvent !== 'undefined';
 
 export default function ItemMovement(options: Options = {}) {
-  const defaultOptions = {
+  const defaultOptions: Options = {
     moveable: true,
     resizable: true,
     resizerContent: '',
+    minDuration: 0,
+    maxDuration: 0,
     collisionDetection: true,
     outOfBorders: false,
     snapStart(timeStart, startDiff) {
@@ -47,12 +88,417 @@ export default function ItemMovement(options: Options = {}) {
     snapEnd(timeEnd, endDiff) {
       return timeEnd + endDiff;
     },
+    snap: false,
+    snapDistance: 10,
+    snapModifierKey: 'alt',
+    snapGuide: true,
+    workingTime: true,
     ghostNode: true,
-    wait: 0
+    wait: 0,
+    reschedule: 'push',
+    onDependencyCycle(itemsIds) {}
   };
   options = { ...defaultOptions, ...options };
 
   const movementState = {};
+  let state, api;
+  let snappingDisabled = false;
+  // dependency cycle is reported once per drag gesture - not on every pointer move
+  let cycleReported = false;
+  const guide = document.createElement('div');
+
+  function isOverlapping(start: number, end: number, time: ItemTime) {
+    return (
+      (start >= time.start && start <= time.end) ||
+      (end >= time.start && end <= time.end) ||
+      (start <= time.start && end >= time.end)
+    );
+  }
+
+  function isCollision(rowId, itemId, start, end, times: ItemsTimes = {}, excluded: string[] = []) {
+    if (!options.collisionDetection) {
+      return false;
+    }
+    const time = state.get('_internal.chart.time');
+    if (options.outOfBorders && (start < time.from || end > time.to)) {
+      return true;
+    }
+    let diff = api.time.date(end).diff(start, 'milliseconds');
+    if (Math.sign(diff) === -1) {
+      diff = -diff;
+    }
+    // milestones have zero duration (items that are not added yet are checked by their times only)
+    const item = state.get(`config.chart.items.${itemId}`);
+    if (diff <= 1 && (item ? !api.isMilestone(item) : diff !== 0)) {
+      return true;
+    }
+    const row = state.get('config.list.rows.' + rowId);
+    // overlapping items of stacked rows are placed in separate lanes
+    if (api.isRowStacked(row)) {
+      return false;
+    }
+    for (const rowItem of row._internal.items) {
+      if (rowItem.id !== itemId && !excluded.includes(rowItem.id)) {
+        if (isOverlapping(start, end, times[rowItem.id] || rowItem.time)) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Check collisions of the group of items moved together (also between themselves in their new rows)
+   * @param {object} changes new rows and times of the group members
+   * @param {object} times all changed times
+   * @returns {boolean}
+   */
+  function isGroupCollision(changes: GroupChanges, times: ItemsTimes) {
+    const itemsIds = Object.keys(changes);
+    for (const itemId of itemsIds) {
+      const { rowId, time } = changes[itemId];
+      if (isCollision(rowId, itemId, time.start, time.end, times, itemsIds)) {
+        return true;
+      }
+      if (!options.collisionDetection || api.isRowStacked(state.get(`config.list.rows.${rowId}`))) {
+        continue;
+      }
+      for (const otherId of itemsIds) {
+        const other = changes[otherId];
+        if (otherId !== itemId && other.rowId === rowId && isOverlapping(time.start, time.end, other.time)) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Get new times of the items and times of items that depend on them
+   * @param {object} changed new items times
+   * @returns {object} times by item id
+   */
+  function getRescheduledTimes(changed: ItemsTimes): ItemsTimes {
+    if (!options.reschedule) {
+      return changed;
+    }
+    const mode = options.reschedule === true ? 'push' : options.reschedule;
+    const result = api.dependencies.reschedule(changed, mode);
+    if (result.cycle.length) {
+      if (!cycleReported) {
+        cycleReported = true;
+        api.log('ItemMovement: dependency cycle detected', result.cycle);
+        options.onDependencyCycle(result.cycle);
+      }
+      return changed;
+    }
+    return result.times;
+  }
+
+  /**
+   * Check collisions of the items rescheduled because of the dependencies
+   * @param {string[]} itemsIds items that are moved (checked separately)
+   * @param {object} times
+   * @returns {boolean}
+   */
+  function isRescheduleCollision(itemsIds: string[], times: ItemsTimes) {
+    const items = state.get('config.chart.items');
+    for (const id in times) {
+      if (!itemsIds.includes(id) && isCollision(items[id].rowId, id, times[id].start, times[id].end, times)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  function isSnappingToWorkingTime() {
+    return options.workingTime && !snappingDisabled && api.workingTime.isEnabled();
+  }
+
+  /**
+   * Snapping is turned off while modifier key is pressed
+   * @param {Event} ev pointer event
+   */
+  function updateSnappingDisabled(ev) {
+    switch (options.snapModifierKey) {
+      case 'shift':
+        snappingDisabled = !!ev.shiftKey;
+        break;
+      case 'alt':
+        snappingDisabled = !!ev.altKey;
+        break;
+      case 'ctrl':
+        snappingDisabled = !!ev.ctrlKey;
+        break;
+      case 'meta':
+        snappingDisabled = !!ev.metaKey;
+        break;
+      default:
+        snappingDisabled = false;
+    }
+  }
+
+  function getSnapModes(): SnapMode[] {
+    if (!options.snap) return [];
+    return Array.isArray(options.snap) ? options.snap : [options.snap];
+  }
+
+  /**
+   * Get closest time of the period, fixed duration or grid block boundary
+   * @param {string|number} mode
+   * @param {number} time
+   * @returns {number}
+   */
+  function getGridTarget(mode: SnapMode, time: number): number {
+    if (typeof mode === 'number') {
+      // durations are counted from the start of the day so they are not shifted by time zone
+      const day = api.time
+        .date(time)
+        .startOf('day')
+        .valueOf();
+      return day + Math.round((time - day) / mode) * mode;
+    }
+    if (mode === 'grid') {
+      const chartTime = state.get('_internal.chart.time');
+      let target = time,
+        closest = Infinity;
+      for (const date of chartTime.levels[chartTime.level] || []) {
+        for (const boundary of [date.leftGlobal, date.rightGlobal + 1]) {
+          if (Math.abs(boundary - time) < closest) {
+            closest = Math.abs(boundary - time);
+            target = boundary;
+          }
+        }
+      }
+      return target;
+    }
+    const period = state.get('_internal.chart.time.period');
+    const start = api.time.date(time).startOf(period);
+    const next = start.add(1, period).valueOf();
+    return time - start.valueOf() < next - time ? start.valueOf() : next;
+  }
+
+  /**
+   * Find the closest snap target - items and today line attract edges only from snapDistance
+   * @param {number[]} edges times snapped with all modes (item start or end while resizing)
+   * @param {number[]} magnetEdges times snapped only to items and today line (item end while moving)
+   * @param {string[]} excluded ids of moved items
+   * @returns {object|null} snap with time difference and target time
+   */
+  function findSnap(edges: number[], magnetEdges: number[], excluded: string[]): Snap | null {
+    const modes = getSnapModes();
+    let snap: Snap | null = null;
+    if (!modes.length || snappingDisabled) {
+      hideGuide();
+      return snap;
+    }
+    const distance = options.snapDistance * state.get('_internal.chart.time.timePerPixel');
+    const check = (edge: number, target: number, magnet: boolean) => {
+      const diff = target - edge;
+      if (magnet && Math.abs(diff) > distance) return;
+      if (snap === null || Math.abs(diff) < Math.abs(snap.diff)) snap = { diff, time: target };
+    };
+    const allEdges = [...edges, ...magnetEdges];
+    for (const mode of modes) {
+      if (mode === 'items') {
+        const items = state.get('config.chart.items');
+        for (const itemId in items) {
+          if (excluded.includes(itemId)) continue;
+          for (const edge of allEdges) {
+            check(edge, items[itemId].time.start, true);
+            check(edge, items[itemId].time.end + 1, true);
+          }
+        }
+      } else if (mode === 'today') {
+        const now = api.time.date().valueOf();
+        for (const edge of allEdges) check(edge, now, true);
+      } else {
+        for (const edge of edges) check(edge, getGridTarget(mode, edge), false);
+      }
+    }
+    if (snap) {
+      showGuide(snap.time);
+    } else {
+      hideGuide();
+    }
+    return snap;
+  }
+
+  function showGuide(time: number) {
+    const timeline: HTMLElement = state.get('_internal.elements.chart-timeline');
+    const grid: HTMLElement = state.get('_internal.elements.chart-timeline-grid');
+    if (!options.snapGuide || !timeline || !grid) return;
+    if (guide.parentNode !== timeline) timeline.appendChild(guide);
+    const timelineRect = timeline.getBoundingClientRect();
+    const gridRect = grid.getBoundingClientRect();
+    const top = Math.max(gridRect.top, timelineRect.top);
+    guide.style.left = api.time.globalTimeToViewPixelOffset(time) + api.getCompensationX() + 'px';
+    guide.style.top = top - timelineRect.top + 'px';
+    guide.style.height = Math.min(gridRect.bottom, timelineRect.bottom) - top + 'px';
+  }
+
+  function hideGuide() {
+    guide.remove();
+  }
+
+  /**
+   * Place item at first working time keeping its working duration - non working time is skipped
+   * @param {object} item
+   * @param {number} start
+   * @param {string} rowId target row (row exceptions like vacations are respected)
+   * @returns {object} time
+   */
+  function getWorkingItemTime(item, start: number, rowId: string = item.rowId): ItemTime {
+    start = api.workingTime.nextWorkingTime(start, rowId);
+    if (api.isMilestone(item)) {
+      return { start, end: start };
+    }
+    const duration = api.workingTime.getItemWorkingDuration(item);
+    if (!duration) {
+      return { start, end: start + item.time.end - item.time.start };
+    }
+    return { start, end: api.workingTime.addWorkingTime(start, duration, rowId) - 1 };
+  }
+
+  /**
+   * Get sides from which item can be resized - true means right side only
+   * @param {boolean|string} resizable
+   * @returns {array} sides
+   */
+  function getResizeSides(resizable: Resizable): ResizeSide[] {
+    if (resizable === 'both') return ['left', 'right'];
+    if (resizable === 'left') return ['left'];
+    if (resizable === true || resizable === 'right') return ['right'];
+    return [];
+  }
+
+  /**
+   * Keep item duration between min and max duration while resizing - only resized side is changed
+   * @param {object} item
+   * @param {object} time new item time
+   * @param {string} side
+   * @returns {object} time
+   */
+  function limitDuration(item, time: ItemTime, side: ResizeSide): ItemTime {
+    const min = item.minDuration !== undefined ? item.minDuration : options.minDuration;
+    const max = item.maxDuration !== undefined ? item.maxDuration : options.maxDuration;
+    let duration = time.end + 1 - time.start;
+    if (min && duration < min) {
+      duration = min;
+    } else if (max && duration > max) {
+      duration = max;
+    } else {
+      return time;
+    }
+    if (side === 'left') {
+      return { start: time.end + 1 - duration, end: time.end };
+    }
+    return { start: time.start, end: time.start + duration - 1 };
+  }
+
+  /**
+   * Update times of all moved items at once so chart will be rendered only once
+   * @param {object} times
+   */
+  function updateTimes(times: ItemsTimes) {
+    const itemsIds = Object.keys(times);
+    if (itemsIds.length === 1) {
+      const itemId = itemsIds[0];
+      state.update(`config.chart.items.${itemId}.time`, function moveItem(time) {
+        time.start = times[itemId].start;
+        time.end = times[itemId].end;
+        return time;
+      });
+      return;
+    }
+    state.update(
+      'config.chart.items',
+      function rescheduleItems(items) {
+        for (const id in times) {
+          items[id].time.start = times[id].start;
+          items[id].time.end = times[id].end;
+        }
+        return items;
+      },
+      { only: ['*.time'] }
+    );
+  }
+
+  /**
+   * Move item the same way as it is dragged - working time snapping, collision detection
+   * and rescheduling of dependent items are applied (used for dragging to other row and by other plugins)
+   * @param {string} itemId
+   * @param {string} rowId target row
+   * @param {number} start requested start time
+   * @param {boolean} dragging item is dragged - snap modifier key is respected and cycle is reported once per drag
+   * @returns {object|null} new item time (unchanged when it is snapped back) or null when movement is rejected
+   */
+  function moveItem(itemId: string, rowId: string, start: number, dragging = false): ItemTime | null {
+    const item = state.get(`config.chart.items.${itemId}`);
+    if (!item) return null;
+    if (!dragging) cycleReported = false;
+    let time: ItemTime = { start, end: api.isMilestone(item) ? start : start + item.time.end - item.time.start };
+    if (dragging ? isSnappingToWorkingTime() : options.workingTime && api.workingTime.isEnabled()) {
+      time = getWorkingItemTime(item, start, rowId);
+    }
+    if (rowId === item.rowId && time.start === item.time.start && time.end === item.time.end) {
+      return time;
+    }
+    const times = getRescheduledTimes({ [itemId]: time });
+    if (isCollision(rowId, itemId, time.start, time.end, times) || isRescheduleCollision([itemId], times)) {
+      return null;
+    }
+    if (rowId === item.rowId) {
+      updateTimes(times);
+      return time;
+    }
+    state.update('config.chart.items', function moveItemToRow(items) {
+      for (const id in times) {
+        items[id].time.start = times[id].start;
+        items[id].time.end = times[id].end;
+      }
+      items[itemId].rowId = rowId;
+      return items;
+    });
+    return time;
+  }
+
+  /**
+   * Move group of items to their new rows and times at once - items that depend on them are rescheduled
+   * Whole group is not moved when any member or rescheduled item collides
+   * @param {object} changes new rows and times of the group members
+   * @returns {boolean} group was moved
+   */
+  function moveGroup(changes: GroupChanges): boolean {
+    const items = state.get('config.chart.items');
+    const itemsIds = Object.keys(changes);
+    const changedTimes: ItemsTimes = {};
+    for (const id of itemsIds) {
+      changedTimes[id] = changes[id].time;
+    }
+    const times = getRescheduledTimes(changedTimes);
+    for (const id of itemsIds) {
+      changes[id].time = times[id];
+    }
+    if (isGroupCollision(changes, times) || isRescheduleCollision(itemsIds, times)) {
+      return false;
+    }
+    if (itemsIds.every(id => changes[id].rowId === items[id].rowId)) {
+      updateTimes(times);
+      return true;
+    }
+    state.update('config.chart.items', function moveGroupToRows(items) {
+      for (const id in times) {
+        items[id].time.start = times[id].start;
+        items[id].time.end = times[id].end;
+      }
+      for (const id of itemsIds) {
+        items[id].rowId = changes[id].rowId;
+      }
+      return items;
+    });
+    return true;
+  }
 
   /**
    * Add moving functionality to items as action
@@ -78,12 +524,22 @@ export default function ItemMovement(options: Options = {}) {
       return moveable;
     }
 
-    function isResizable(data) {
-      let resizable = options.resizable && (!data.item.hasOwnProperty('resizable') || data.item.resizable === true);
-      if (data.row.hasOwnProperty('resizable') && resizable) {
-        resizable = data.row.resizable;
+    function getResizable(data): ResizeSide[] {
+      if (api.isMilestone(data.item)) {
+        return [];
+      }
+      let sides = getResizeSides(options.resizable);
+      if (data.item.hasOwnProperty('resizable') && sides.length) {
+        sides = getResizeSides(data.item.resizable);
+      }
+      if (data.row.hasOwnProperty('resizable') && sides.length) {
+        sides = getResizeSides(data.row.resizable);
       }
-      return resizable;
+      return sides;
+    }
+
+    function isResizable(data, side: ResizeSide) {
+      return getResizable(data).includes(side);
     }
 
     function getMovement(data) {
@@ -175,18 +631,55 @@ export default function ItemMovement(options: Options = {}) {
       return snapEnd;
     }
 
-    const resizerHTML = `<div class="${api.getClass('chart-timeline-items-row-item-resizer')}">${
-      options.resizerContent
-    }</div>`;
+    const resizerClass = api.getClass('chart-timeline-items-row-item-resizer');
+    const resizerHTML = `<div class="${resizerClass} ${resizerClass}--right">${options.resizerContent}</div>`;
+    const leftResizerHTML = `<div class="${resizerClass} ${resizerClass}--left">${options.resizerContent}</div>`;
     // @ts-ignore
     element.insertAdjacentHTML('beforeend', resizerHTML);
+    // @ts-ignore
+    element.insertAdjacentHTML('afterbegin', leftResizerHTML);
     const resizerEl: HTMLElement = element.querySelector(
-      '.gantt-schedule-timeline-calendar__chart-timeline-items-row-item-resizer'
+      '.gantt-schedule-timeline-calendar__chart-timeline-items-row-item-resizer--right'
     );
-    if (!isResizable(data)) {
-      resizerEl.style.visibility = 'hidden';
-    } else {
-      resizerEl.style.visibility = 'visible';
+    const leftResizerEl: HTMLElement = element.querySelector(
+      '.gantt-schedule-timeline-calendar__chart-timeline-items-row-item-resizer--left'
+    );
+
+    function updateResizers(data) {
+      for (const [side, resizer] of [
+        ['right', resizerEl],
+        ['left', leftResizerEl]
+      ] as [ResizeSide, HTMLElement][]) {
+        const visibility = isResizable(data, side) ? 'visible' : 'hidden';
+        if (resizer.style.visibility !== visibility) {
+          resizer.style.visibility = visibility;
+        }
+      }
+    }
+    updateResizers(data);
+
+    let group: GroupMember[] | null = null;
+
+    /**
+     * Selected items are moved together with the dragged one
+     * @returns {array|null} group members with their original rows and times
+     */
+    function getGroup(): GroupMember[] | null {
+      const selected: string[] = state.get('config.plugin.selection.selected.chart-timeline-items-row-items') || [];
+      if (selected.length < 2 || !selected.includes(data.item.id)) {
+        return null;
+      }
+      const items = state.get('config.chart.items');
+      const visibleRows = state.get('_internal.list.visibleRows');
+      const members: GroupMember[] = [];
+      for (const itemId of selected) {
+        const item = items[itemId];
+        if (item) {
+          const rowIndex = visibleRows.findIndex(row => row.id === item.rowId);
+          members.push({ id: itemId, rowId: item.rowId, rowIndex, time: { ...item.time } });
+        }
+      }
+      return members.length > 1 ? members : null;
     }
 
     function labelDown(ev) {
@@ -196,12 +689,15 @@ export default function ItemMovement(options: Options = {}) {
       }
       const movement: Movement = getMovement(data);
       movement.waiting = true;
+      cycleReported = false;
       saveMovement(data.item.id, movement);
+      const selectedGroup = getGroup();
       setTimeout(() => {
         ev.stopPropagation();
         ev.preventDefault();
         if (!movement.waiting) return;
         movement.moving = true;
+        group = selectedGroup;
         const item = state.get(`config.chart.items.${data.item.id}`);
         const chartLeftTime = state.get('_internal.chart.time.leftGlobal');
         const timePerPixel = state.get('_internal.chart.time.timePerPixel');
@@ -215,7 +711,7 @@ export default function ItemMovement(options: Options = {}) {
       }, options.wait);
     }
 
-    function resizerDown(ev) {
+    function startResizing(ev, side: ResizeSide) {
       ev.stopPropagation();
       ev.preventDefault();
       if ((ev.type === 'pointerdown' || ev.type === 'mousedown') && ev.button !== 0) {
@@ -224,47 +720,25 @@ export default function ItemMovement(options: Options = {}) {
       const normalized = api.normalizePointerEvent(ev);
       const movement = getMovement(data);
       movement.resizing = true;
+      movement.resizeSide = side;
+      cycleReported = false;
       const item = state.get(`config.chart.items.${data.item.id}`);
       const chartLeftTime = state.get('_internal.chart.time.leftGlobal');
       const timePerPixel = state.get('_internal.chart.time.timePerPixel');
       const ganttRect = state.get('_internal.elements.chart-timeline').getBoundingClientRect();
       movement.ganttTop = ganttRect.top;
       movement.ganttLeft = ganttRect.left;
-      movement.itemX = (item.time.end - chartLeftTime) / timePerPixel;
+      movement.itemX = ((side === 'left' ? item.time.start : item.time.end) - chartLeftTime) / timePerPixel;
       movement.itemLeftCompensation = normalized.clientX - movement.ganttLeft - movement.itemX;
       saveMovement(data.item.id, movement);
     }
 
-    function isCollision(rowId, itemId, start, end) {
-      if (!options.collisionDetection) {
-        return false;
-      }
-      const time = state.get('_internal.chart.time');
-      if (options.outOfBorders && (start < time.from || end > time.to)) {
-        return true;
-      }
-      let diff = api.time.date(end).diff(start, 'milliseconds');
-      if (Math.sign(diff) === -1) {
-        diff = -diff;
-      }
-      if (diff <= 1) {
-        return true;
-      }
-      const row = state.get('config.list.rows.' + rowId);
-      for (const rowItem of row._internal.items) {
-        if (rowItem.id !== itemId) {
-          if (start >= rowItem.time.start && start <= rowItem.time.end) {
-            return true;
-          }
-          if (end >= rowItem.time.start && end <= rowItem.time.end) {
-            return true;
-          }
-          if (start <= rowItem.time.start && end >= rowItem.time.end) {
-            return true;
-          }
-        }
-      }
-      return false;
+    function resizerDown(ev) {
+      startResizing(ev, 'right');
+    }
+
+    function leftResizerDown(ev) {
+      startResizing(ev, 'left');
     }
 
     function movementX(normalized, row, item, zoom, timePerPixel) {
@@ -273,21 +747,38 @@ export default function ItemMovement(options: Options = {}) {
       moveGhost(data, normalized);
       const leftMs = state.get('_internal.chart.time.leftGlobal') + left * timePerPixel;
       const add = leftMs - item.time.start;
+      const magnetEdges = api.isMilestone(item) ? [] : [leftMs + item.time.end + 1 - item.time.start];
+      const snap = findSnap([leftMs], magnetEdges, [item.id]);
       const originalStart = item.time.start;
-      const finalStartTime = getSnapStart(data)(item.time.start, add, item);
+      // built-in snapping takes precedence over snap functions
+      const finalStartTime = snap ? leftMs + snap.diff : getSnapStart(data)(item.time.start, add, item);
       const finalAdd = finalStartTime - originalStart;
-      const collision = isCollision(row.id, item.id, item.time.start + finalAdd, item.time.end + finalAdd);
-      if (finalAdd && !collision) {
-        state.update(`config.chart.items.${data.item.id}.time`, function moveItem(time) {
-          time.start += finalAdd;
-          time.end = getSnapEnd(data)(time.end, finalAdd, item) - 1;
-          return time;
-        });
+      if (!finalAdd) {
+        return;
+      }
+      let end = item.time.end + finalAdd;
+      if (api.isMilestone(item)) {
+        end = item.time.start + finalAdd;
+      } else if (!snap) {
+        end = getSnapEnd(data)(item.time.end, finalAdd, item) - 1;
+      }
+      let itemTime: ItemTime = { start: item.time.start + finalAdd, end };
+      let collisionTime: ItemTime = { start: item.time.start + finalAdd, end: item.time.end + finalAdd };
+      if (isSnappingToWorkingTime()) {
+        itemTime = collisionTime = getWorkingItemTime(item, finalStartTime);
+        if (itemTime.start === item.time.start && itemTime.end === item.time.end) {
+          return;
+        }
+      }
+      const times = getRescheduledTimes({ [item.id]: itemTime });
+      const collision = isCollision(row.id, item.id, collisionTime.start, collisionTime.end, times);
+      if (!collision && !isRescheduleCollision([item.id], times)) {
+        updateTimes(times);
       }
     }
 
     function resizeX(normalized, row, item, zoom, timePerPixel) {
-      if (!isResizable(data)) {
+      if (!isResizable(data, 'right')) {
         return;
       }
       const time = state.get('_internal.chart.time');
@@ -299,16 +790,131 @@ export default function ItemMovement(options: Options = {}) {
         return;
       }
       const originalEnd = item.time.end;
-      const finalEndTime = getSnapEnd(data)(item.time.end, add, item) - 1;
-      const finalAdd = finalEndTime - originalEnd;
-      const collision = isCollision(row.id, item.id, item.time.start, item.time.end + finalAdd);
-      if (finalAdd && !collision) {
-        state.update(`config.chart.items.${data.item.id}.time`, time => {
-          time.start = getSnapStart(data)(time.start, 0, item);
-          time.end = getSnapEnd(data)(time.end, finalAdd, item) - 1;
-          return time;
-        });
+      const snap = findSnap([leftMs + 1], [], [item.id]);
+      let end: number, collisionEnd: number;
+      if (snap) {
+        // targets are exclusive so item ends one millisecond before
+        end = collisionEnd = snap.time - 1;
+      } else {
+        const finalAdd = getSnapEnd(data)(item.time.end, add, item) - 1 - originalEnd;
+        if (!finalAdd) {
+          return;
+        }
+        end = getSnapEnd(data)(item.time.end, finalAdd, item) - 1;
+        collisionEnd = item.time.end + finalAdd;
+      }
+      if (isSnappingToWorkingTime()) {
+        // end is inclusive so it is moved back to the last working millisecond
+        end = collisionEnd = api.workingTime.previousWorkingTime(end + 1, row.id) - 1;
+      }
+      const limited = limitDuration(item, { start: item.time.start, end }, 'right');
+      if (limited.end !== end) {
+        end = collisionEnd = limited.end;
+      }
+      if (end <= item.time.start || end === item.time.end) {
+        return;
       }
+      const times = getRescheduledTimes({
+        [item.id]: {
+          start: getSnapStart(data)(item.time.start, 0, item),
+          end
+        }
+      });
+      const collision = isCollision(row.id, item.id, item.time.start, collisionEnd, times);
+      if (!collision && !isRescheduleCollision([item.id], times)) {
+        updateTimes(times);
+      }
+    }
+
+    function resizeLeftX(normalized, row, item, zoom, timePerPixel) {
+      if (!isResizable(data, 'left')) {
+        return;
+      }
+      const movement = getMovement(data);
+      const left = normalized.clientX - movement.ganttLeft - movement.itemLeftCompensation;
+      const leftMs = state.get('_internal.chart.time.leftGlobal') + left * timePerPixel;
+      const snap = findSnap([leftMs], [], [item.id]);
+      let start = snap ? snap.time : getSnapStart(data)(item.time.start, leftMs - item.time.start, item);
+      if (isSnappingToWorkingTime()) {
+        start = api.workingTime.nextWorkingTime(start, row.id);
+      }
+      start = limitDuration(item, { start, end: item.time.end }, 'left').start;
+      if (start >= item.time.end || start === item.time.start) {
+        return;
+      }
+      const times = getRescheduledTimes({ [item.id]: { start, end: item.time.end } });
+      const collision = isCollision(row.id, item.id, start, item.time.end, times);
+      if (!collision && !isRescheduleCollision([item.id], times)) {
+        updateTimes(times);
+      }
+    }
+
+    /**
+     * Move all group members by the same time and the same row offset (within visible rows)
+     * Whole group is not moved when any member collides or cannot be moved
+     */
+    function groupMovement(normalized, row, item, zoom, timePerPixel) {
+      moveGhost(data, normalized);
+      const movement = getMovement(data);
+      const items = state.get('config.chart.items');
+      const rows = state.get('config.list.rows');
+      const visibleRows = state.get('_internal.list.visibleRows');
+      const itemsIds = group.map(member => member.id);
+      const dragged = group.find(member => member.id === data.item.id);
+      let canMoveX = true,
+        canMoveY = true;
+      for (const member of group) {
+        const moveable = isMoveable({ item: items[member.id], row: rows[member.rowId] });
+        if (!moveable) {
+          return;
+        }
+        canMoveX = canMoveX && (moveable === true || moveable === 'x' || Array.isArray(moveable));
+        canMoveY = canMoveY && moveable !== 'x';
+      }
+      let diff = 0;
+      if (canMoveX) {
+        const left = normalized.clientX - movement.ganttLeft - movement.itemLeftCompensation;
+        const leftMs = state.get('_internal.chart.time.leftGlobal') + left * timePerPixel;
+        const snap = findSnap([leftMs], [leftMs + dragged.time.end + 1 - dragged.time.start], itemsIds);
+        let start = snap
+          ? leftMs + snap.diff
+          : getSnapStart(data)(dragged.time.start, leftMs - dragged.time.start, items[dragged.id]);
+        if (isSnappingToWorkingTime()) {
+          start = api.workingTime.nextWorkingTime(start, dragged.rowId);
+        }
+        diff = start - dragged.time.start;
+      }
+      let offset = 0;
+      if (canMoveY && dragged.rowIndex !== -1) {
+        const index = movementY(normalized, row, item, zoom, timePerPixel);
+        offset = Math.max(0, Math.min(index, visibleRows.length - 1)) - dragged.rowIndex;
+      }
+      const changes: GroupChanges = {};
+      for (const member of group) {
+        let rowId = member.rowId;
+        if (offset) {
+          const newRow = member.rowIndex === -1 ? undefined : visibleRows[member.rowIndex + offset];
+          if (!newRow || (newRow.hasOwnProperty('moveable') && !newRow.moveable)) {
+            return;
+          }
+          const moveable = isMoveable({ item: items[member.id], row: rows[member.rowId] });
+          if (Array.isArray(moveable) && !moveable.includes(newRow.id)) {
+            return;
+          }
+          rowId = newRow.id;
+        }
+        changes[member.id] = { rowId, time: { start: member.time.start + diff, end: member.time.end + diff } };
+      }
+      const unchanged = itemsIds.every(
+        id =>
+          changes[id].rowId === items[id].rowId &&
+          changes[id].time.start === items[id].time.start &&
+          changes[id].time.end === items[id].time.end
+      );
+      if (unchanged) {
+        return;
+      }
+      moveGroup(changes);
     }
 
     function movementY(normalized, row, item, zoom, timePerPixel) {
@@ -337,12 +943,17 @@ export default function ItemMovement(options: Options = {}) {
       if (movement.moving || movement.resizing) {
         ev.stopPropagation();
         ev.preventDefault();
+        updateSnappingDisabled(ev);
         item = state.get(`config.chart.items.${data.item.id}`);
         rowId = state.get(`config.chart.items.${data.item.id}.rowId`);
         row = state.get(`config.list.rows.${rowId}`);
         zoom = state.get('_internal.chart.time.zoom');
         timePerPixel = state.get('_internal.chart.time.timePerPixel');
       }
+      if (movement.moving && group) {
+        groupMovement(normalized, row, item, zoom, timePerPixel);
+        return;
+      }
       const moveable = isMoveable(data);
       if (movement.moving) {
         if (moveable === true || moveable === 'x' || (Array.isArray(moveable) && moveable.includes(rowId))) {
@@ -362,15 +973,14 @@ export default function ItemMovement(options: Options = {}) {
         }
         const newRow = visibleRows[visibleRowsIndex];
         const newRowId = newRow.id;
-        const collision = isCollision(newRowId, item.id, item.time.start, item.time.end);
-        if (newRowId !== item.rowId && !collision) {
-          if (!Array.isArray(moveable) || moveable.includes(newRowId)) {
-            if (!newRow.hasOwnProperty('moveable') || newRow.moveable) {
-              state.update(`config.chart.items.${item.id}.rowId`, newRowId);
-            }
+        if (newRowId !== item.rowId && (!Array.isArray(moveable) || moveable.includes(newRowId))) {
+          if (!newRow.hasOwnProperty('moveable') || newRow.moveable) {
+            moveItem(item.id, newRowId, item.time.start, true);
           }
         }
-      } else if (movement.resizing && (typeof item.resizable === 'undefined' || item.resizable === true)) {
+      } else if (movement.resizing && movement.resizeSide === 'left') {
+        resizeLeftX(normalized, row, item, zoom, timePerPixel);
+      } else if (movement.resizing) {
         resizeX(normalized, row, item, zoom, timePerPixel);
       }
     }
@@ -386,6 +996,8 @@ export default function ItemMovement(options: Options = {}) {
       movement.moving = false;
       movement.waiting = false;
       movement.resizing = false;
+      group = null;
+      hideGuide();
       saveMovement(data.item.id, movement);
       for (const itemId in movementState) {
         movementState[itemId].moving = false;
@@ -398,55 +1010,191 @@ export default function ItemMovement(options: Options = {}) {
     if (pointerEventsExists) {
       element.addEventListener('pointerdown', labelDown);
       resizerEl.addEventListener('pointerdown', resizerDown);
+      leftResizerEl.addEventListener('pointerdown', leftResizerDown);
       document.addEventListener('pointermove', documentMove);
       document.addEventListener('pointerup', documentUp);
     } else {
       element.addEventListener('touchstart', labelDown);
       resizerEl.addEventListener('touchstart', resizerDown);
+      leftResizerEl.addEventListener('touchstart', leftResizerDown);
       document.addEventListener('touchmove', documentMove);
       document.addEventListener('touchend', documentUp);
       document.addEventListener('touchcancel', documentUp);
       element.addEventListener('mousedown', labelDown);
       resizerEl.addEventListener('mousedown', resizerDown);
+      leftResizerEl.addEventListener('mousedown', leftResizerDown);
       document.addEventListener('mousemove', documentMove);
       document.addEventListener('mouseup', documentUp);
     }
 
     return {
       update(node, changedData) {
-        if (!isResizable(changedData) && resizerEl.style.visibility === 'visible') {
-          resizerEl.style.visibility = 'hidden';
-        } else if (isResizable(changedData) && resizerEl.style.visibility === 'hidden') {
-          resizerEl.style.visibility = 'visible';
-        }
+        updateResizers(changedData);
         data = changedData;
       },
       destroy(node, data) {
         if (pointerEventsExists) {
           element.removeEventListener('pointerdown', labelDown);
           resizerEl.removeEventListener('pointerdown', resizerDown);
+          leftResizerEl.removeEventListener('pointerdown', leftResizerDown);
           document.removeEventListener('pointermove', documentMove);
           document.removeEventListener('pointerup', documentUp);
         } else {
           element.removeEventListener('mousedown', labelDown);
           resizerEl.removeEventListener('mousedown', resizerDown);
+          leftResizerEl.removeEventListener('mousedown', leftResizerDown);
           document.removeEventListener('mousemove', documentMove);
           document.removeEventListener('mouseup', documentUp);
           element.removeEventListener('touchstart', labelDown);
           resizerEl.removeEventListener('touchstart', resizerDown);
+          leftResizerEl.removeEventListener('touchstart', leftResizerDown);
           document.removeEventListener('touchmove', documentMove);
           document.removeEventListener('touchend', documentUp);
           document.removeEventListener('touchcancel', documentUp);
         }
         resizerEl.remove();
+        leftResizerEl.remove();
+      }
+    };
+  }
+
+  /**
+   * Add moving functionality to summary rows - all children items are moved together
+   *
+   * @param {HTMLElement} element DOM Node
+   * @param {Object} data
+   */
+  function SummaryAction(element: HTMLElement, data) {
+    if (!options.moveable) {
+      return;
+    }
+    let moving = false,
+      startX = 0,
+      lastAdd = 0,
+      summaryTime: ItemTime,
+      originalTimes: ItemsTimes = {};
+
+    function isMoveable() {
+      if (options.moveable !== true && options.moveable !== 'x') {
+        return false;
+      }
+      return !data.row.hasOwnProperty('moveable') || !!data.row.moveable;
+    }
+
+    function summaryDown(ev) {
+      if ((ev.type === 'pointerdown' || ev.type === 'mousedown') && ev.button !== 0) {
+        return;
+      }
+      // prevent selection
+      ev.stopPropagation();
+      if (moving || !data.summary || !isMoveable()) {
+        return;
+      }
+      ev.preventDefault();
+      moving = true;
+      cycleReported = false;
+      lastAdd = 0;
+      startX = api.normalizePointerEvent(ev).clientX;
+      summaryTime = { ...data.summary };
+      originalTimes = {};
+      for (const item of api.getDescendantItems(state.get(`_internal.flatTreeMapById.${data.row.id}`))) {
+        if (!item.hasOwnProperty('moveable') || item.moveable) {
+          originalTimes[item.id] = { start: item.time.start, end: item.time.end };
+        }
+      }
+      state.update('config.plugin.ItemMovement.movement', { moving: true, waiting: false, resizing: false });
+    }
+
+    function documentMove(ev) {
+      if (!moving) {
+        return;
+      }
+      ev.stopPropagation();
+      ev.preventDefault();
+      updateSnappingDisabled(ev);
+      const timePerPixel = state.get('_internal.chart.time.timePerPixel');
+      const add = (api.normalizePointerEvent(ev).clientX - startX) * timePerPixel;
+      const snap = findSnap([summaryTime.start + add], [summaryTime.end + 1 + add], Object.keys(originalTimes));
+      const summaryItem = { id: data.row.id, time: summaryTime };
+      const finalAdd = snap
+        ? add + snap.diff
+        : options.snapStart(summaryTime.start, add, summaryItem) - summaryTime.start;
+      if (finalAdd === lastAdd) {
+        return;
+      }
+      const changed: ItemsTimes = {};
+      for (const itemId in originalTimes) {
+        changed[itemId] = { start: originalTimes[itemId].start + finalAdd, end: originalTimes[itemId].end + finalAdd };
+      }
+      const times = getRescheduledTimes(changed);
+      if (!isRescheduleCollision([], times)) {
+        lastAdd = finalAdd;
+        updateTimes(times);
+      }
+    }
+
+    function documentUp(ev) {
+      if (!moving) {
+        return;
+      }
+      ev.stopPropagation();
+      ev.preventDefault();
+      moving = false;
+      hideGuide();
+      state.update('config.plugin.ItemMovement.movement', { moving: false, waiting: false, resizing: false });
+    }
+
+    if (pointerEventsExists) {
+      element.addEventListener('pointerdown', summaryDown);
+      document.addEventListener('pointermove', documentMove);
+      document.addEventListener('pointerup', documentUp);
+    } else {
+      element.addEventListener('touchstart', summaryDown);
+      document.addEventListener('touchmove', documentMove);
+      document.addEventListener('touchend', documentUp);
+      document.addEventListener('touchcancel', documentUp);
+      document.addEventListener('mousemove', documentMove);
+      document.addEventListener('mouseup', documentUp);
+    }
+    element.addEventListener('mousedown', summaryDown);
+
+    return {
+      update(node, changedData) {
+        data = changedData;
+      },
+      destroy(node) {
+        if (pointerEventsExists) {
+          element.removeEventListener('pointerdown', summaryDown);
+          document.removeEventListener('pointermove', documentMove);
+          document.removeEventListener('pointerup', documentUp);
+        } else {
+          element.removeEventListener('touchstart', summaryDown);
+          document.removeEventListener('touchmove', documentMove);
+          document.removeEventListener('touchend', documentUp);
+          document.removeEventListener('touchcancel', documentUp);
+          document.removeEventListener('mousemove', documentMove);
+          document.removeEventListener('mouseup', documentUp);
+        }
+        element.removeEventListener('mousedown', summaryDown);
       }
     };
   }
 
   return function initialize(vido) {
+    state = vido.state;
+    api = vido.api;
+    guide.classList.add(api.getClass('chart-timeline-grid-snap-guide'));
     vido.state.update('config.actions.chart-timeline-items-row-item', actions => {
       actions.push(ItemAction);
       return actions;
     });
+    vido.state.update('config.actions.chart-timeline-items-row-summary', actions => {
+      actions.push(SummaryAction);
+      return actions;
+    });
+    // other plugins (like Clipboard) must follow the same collision rules
+    state.update('_internal.plugin.ItemMovement.isCollision', () => isCollision);
+    state.update('_internal.plugin.ItemMovement.moveItem', () => moveItem);
+    state.update('_internal.plugin.ItemMovement.moveGroup', () => moveGroup);
   };
 }
@@ -0,0 +1,492 @@
+/**
+ * KeyboardNavigation plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import { Action } from '@neuronet.io/vido/vido.esm';
+import { ItemTime } from '../types';
+
+export type AnnouncementType = 'focus' | 'expanded' | 'collapsed' | 'selected' | 'moved';
+
+export interface AnnouncementProps {
+  type: AnnouncementType;
+  row: any;
+  rowLabel: string;
+  item?: any;
+  itemLabel?: string;
+  time: ItemTime;
+  format: (time: number) => string;
+  vido: any;
+}
+
+export interface Options {
+  label?: string;
+  format?: string;
+  announce?: (props: AnnouncementProps) => string;
+}
+
+export interface Position {
+  rowId: string | null;
+  time: number | null;
+  itemId: string | null;
+}
+
+type Axis = 'x' | 'y';
+
+function getText(html: string) {
+  const div = document.createElement('div');
+  div.innerHTML = html;
+  return div.textContent;
+}
+
+export default function KeyboardNavigation(options: Options = {}) {
+  let vido, state, api;
+  const defaultOptions: Options = {
+    label: 'Schedule',
+    format: 'YYYY-MM-DD HH:mm',
+    announce({ type, rowLabel, item, itemLabel, time, format }) {
+      let range = `${format(time.start)} - ${format(time.end)}`;
+      if (item && vido.api.isMilestone(item)) range = format(time.start);
+      switch (type) {
+        case 'expanded':
+          return `${rowLabel} expanded`;
+        case 'collapsed':
+          return `${rowLabel} collapsed`;
+        case 'selected':
+          return item ? `${itemLabel} selected` : `${rowLabel}, ${format(time.start)} selected`;
+        case 'moved':
+          return `${itemLabel} moved to ${rowLabel}, ${range}`;
+      }
+      return item ? `${rowLabel}, ${itemLabel}, ${range}` : `${rowLabel}, ${format(time.start)}`;
+    }
+  };
+  options = { ...defaultOptions, ...options };
+  const pluginPath = 'config.plugin.KeyboardNavigation';
+
+  const blocks = new Map<HTMLElement, any>();
+  const items = new Map<HTMLElement, any>();
+  const liveRegion = document.createElement('div');
+  let main: HTMLElement,
+    focusedElement: HTMLElement | null = null,
+    active = false,
+    syncScheduled = false;
+
+  function getPosition(): Position {
+    return state.get(pluginPath);
+  }
+
+  function getPeriod() {
+    return state.get('_internal.chart.time.period');
+  }
+
+  function startOfPeriod(time: number) {
+    return api.time
+      .date(time)
+      .startOf(getPeriod())
+      .valueOf();
+  }
+
+  function addPeriods(time: number, count: number) {
+    return api.time
+      .date(time)
+      .add(count, getPeriod())
+      .valueOf();
+  }
+
+  function format(time: number) {
+    return api.time.date(time).format(options.format);
+  }
+
+  function getRowLabel(row) {
+    const columns: any[] = Object.values(state.get('config.list.columns.data') || {});
+    const column = columns.find(current => current.expander) || columns[0];
+    if (!column) return String(row.id);
+    const value = typeof column.data === 'function' ? column.data(row) : row[column.data];
+    return column.isHTML ? getText(value) : String(value);
+  }
+
+  function getItemLabel(item) {
+    return item.isHtml ? getText(item.label) : String(item.label);
+  }
+
+  /**
+   * Get first item (by start time) that overlaps period starting at specified time
+   * @param {string} rowId
+   * @param {number} time
+   * @returns {string|null} item id
+   */
+  function getItemAt(rowId: string, time: number): string | null {
+    const row = state.get(`_internal.flatTreeMapById.${rowId}`);
+    if (!row) return null;
+    const end = addPeriods(time, 1) - 1;
+    const rowItems = row._internal.items
+      .filter(item => item.time.start <= end && item.time.end >= time)
+      .sort((a, b) => a.time.start - b.time.start);
+    return rowItems.length ? rowItems[0].id : null;
+  }
+
+  function announce(type: AnnouncementType) {
+    const position = getPosition();
+    const row = state.get(`_internal.flatTreeMapById.${position.rowId}`);
+    if (!row) return;
+    const item = position.itemId !== null ? state.get(`config.chart.items.${position.itemId}`) : undefined;
+    const time = item ? { ...item.time } : { start: position.time, end: addPeriods(position.time, 1) - 1 };
+    liveRegion.textContent = options.announce({
+      type,
+      row,
+      rowLabel: getRowLabel(row),
+      item,
+      itemLabel: item ? getItemLabel(item) : undefined,
+      time,
+      format,
+      vido
+    });
+  }
+
+  /**
+   * Scroll chart so focused row and period are visible
+   * @param {string} rowId
+   * @param {number} time
+   */
+  function scrollIntoView(rowId: string, time: number) {
+    const rows = state.get('_internal.list.rowsWithParentsExpanded') || [];
+    let offset = 0;
+    for (const row of rows) {
+      if (row.id === rowId) {
+        const height = state.get('_internal.height');
+        let top = state.get('config.scroll.top');
+        if (offset < top) top = offset;
+        if (offset + row.height > top + height) top = offset + row.height - height;
+        if (top !== state.get('config.scroll.top')) {
+          state.update('config.scroll.top', api.limitScrollTop(state.get('_internal.list.rowsHeight'), height, top));
+        }
+        break;
+      }
+      offset += row.height;
+    }
+    const chartTime = state.get('_internal.chart.time');
+    if (time < chartTime.leftGlobal || addPeriods(time, 1) > chartTime.rightGlobal) {
+      api.scrollToTime(time);
+    }
+  }
+
+  function findElement(position: Position): HTMLElement | null {
+    if (position.itemId !== null) {
+      for (const [element, data] of items) {
+        if (data.item.id === position.itemId) return element;
+      }
+    }
+    for (const [element, data] of blocks) {
+      if (data.row.id === position.rowId && data.time.leftGlobal === position.time) return element;
+    }
+    return null;
+  }
+
+  /**
+   * Roving tabindex - only focused cell (or main element if it is not rendered) is reachable with Tab key
+   */
+  function syncFocus() {
+    syncScheduled = false;
+    if (!main) return;
+    const element = findElement(getPosition());
+    if (element !== focusedElement) {
+      if (focusedElement) focusedElement.setAttribute('tabindex', '-1');
+      focusedElement = element;
+    }
+    main.setAttribute('tabindex', element ? '-1' : '0');
+    if (!element) return;
+    element.setAttribute('tabindex', '0');
+    if (active && document.activeElement !== element) element.focus({ preventScroll: true });
+  }
+
+  /**
+   * Many cells are rendered at once so focus is synchronized once after all of them
+   */
+  function scheduleSync() {
+    if (syncScheduled) return;
+    syncScheduled = true;
+    Promise.resolve().then(syncFocus);
+  }
+
+  function focusCell(rowId: string, time: number, itemId: string | null = getItemAt(rowId, time)) {
+    state.update(pluginPath, { rowId, time, itemId });
+    scrollIntoView(rowId, time);
+    scheduleSync();
+    announce('focus');
+  }
+
+  function focusFirstVisibleCell() {
+    const visibleRows = state.get('_internal.list.visibleRows');
+    if (!visibleRows || !visibleRows.length) return;
+    const leftGlobal = state.get('_internal.chart.time.leftGlobal');
+    let time = startOfPeriod(leftGlobal);
+    if (time < leftGlobal) time = addPeriods(time, 1);
+    focusCell(visibleRows[0].id, time);
+  }
+
+  function isInsideChart(time: number) {
+    const chartTime = state.get('_internal.chart.time');
+    return time >= startOfPeriod(chartTime.from) && time <= chartTime.to;
+  }
+
+  function getAdjacentRow(rowId: string, direction: number) {
+    const rows = state.get('_internal.list.rowsWithParentsExpanded') || [];
+    const index = rows.findIndex(row => row.id === rowId);
+    if (index === -1) return;
+    return rows[index + direction];
+  }
+
+  function moveRow(direction: number) {
+    const position = getPosition();
+    const row = getAdjacentRow(position.rowId, direction);
+    if (row) focusCell(row.id, position.time);
+  }
+
+  function moveTime(direction: number) {
+    const position = getPosition();
+    let time = addPeriods(position.time, direction);
+    if (position.itemId !== null) {
+      // jump over focused item
+      const item = state.get(`config.chart.items.${position.itemId}`);
+      time = addPeriods(startOfPeriod(direction > 0 ? item.time.end : item.time.start), direction);
+    }
+    if (isInsideChart(time)) focusCell(position.rowId, time);
+  }
+
+  function canMove(item, row, axis: Axis, targetRowId: string) {
+    let moveable = item.hasOwnProperty('moveable') ? item.moveable : true;
+    if (row.hasOwnProperty('moveable') && !row.moveable) moveable = false;
+    if (Array.isArray(moveable)) return axis === 'x' || moveable.includes(targetRowId);
+    if (moveable === 'x' || moveable === 'y') return moveable === axis;
+    return !!moveable;
+  }
+
+  /**
+   * Move focused item by one period (left / right) or to the adjacent row (up / down)
+   * Items are moved by ItemMovement plugin so its collision detection, rescheduling and working time are respected
+   * @param {number} direction
+   * @param {string} axis
+   */
+  function moveItem(direction: number, axis: Axis) {
+    const position = getPosition();
+    if (position.itemId === null) return;
+    const move = state.get('_internal.plugin.ItemMovement.moveItem');
+    if (typeof move !== 'function') {
+      api.log('KeyboardNavigation: ItemMovement plugin is required to move items with keyboard');
+      return;
+    }
+    const item = state.get(`config.chart.items.${position.itemId}`);
+    const row = state.get(`_internal.flatTreeMapById.${item.rowId}`);
+    if (axis === 'y') {
+      const targetRow = getAdjacentRow(item.rowId, direction);
+      if (!targetRow || (targetRow.hasOwnProperty('moveable') && !targetRow.moveable)) return;
+      if (!canMove(item, row, axis, targetRow.id)) return;
+      if (!move(item.id, targetRow.id, item.time.start)) return;
+      focusCell(targetRow.id, position.time, item.id);
+      announce('moved');
+      return;
+    }
+    if (!canMove(item, row, axis, item.rowId)) return;
+    const originalStart = item.time.start;
+    // item moved into non working time is snapped back to the same place - next periods are tried then
+    for (let periods = direction; ; periods += direction) {
+      const start = addPeriods(originalStart, periods);
+      if (!isInsideChart(startOfPeriod(start))) return;
+      const time = move(item.id, item.rowId, start);
+      if (!time) return;
+      if (time.start === originalStart) continue;
+      focusCell(item.rowId, startOfPeriod(time.start), item.id);
+      announce('moved');
+      return;
+    }
+  }
+
+  /**
+   * Expander toggle components are subscribed to the row expanded state so they stay in sync
+   */
+  function toggleRow() {
+    const position = getPosition();
+    const row = state.get(`_internal.flatTreeMapById.${position.rowId}`);
+    if (!row || !row._internal.children.length) return;
+    state.update(`config.list.rows.${row.id}.expanded`, expanded => !expanded);
+    announce(state.get(`config.list.rows.${row.id}.expanded`) ? 'expanded' : 'collapsed');
+  }
+
+  function selectFocused(addToPrevious: boolean) {
+    const select = state.get('_internal.plugin.selection.select');
+    if (typeof select !== 'function') {
+      api.log('KeyboardNavigation: Selection plugin is required to select with keyboard');
+      return;
+    }
+    const position = getPosition();
+    if (position.itemId !== null) {
+      select('chart-timeline-items-row-item', [position.itemId], addToPrevious);
+    } else {
+      const element = findElement(position);
+      const blockId = element
+        ? blocks.get(element).id
+        : position.rowId + ':' + api.time.date(position.time).format('YYYY-MM-DD HH:mm');
+      select('chart-timeline-grid-row-block', [blockId], addToPrevious);
+    }
+    announce('selected');
+  }
+
+  function onKeyDown(ev: KeyboardEvent) {
+    const target = ev.target as HTMLElement;
+    // other elements inside main (like context menu or inputs) handle keys by themselves
+    if (target !== main && !items.has(target) && !blocks.has(target)) return;
+    const position = getPosition();
+    if (position.rowId === null || !state.get(`_internal.flatTreeMapById.${position.rowId}`)) return;
+    switch (ev.key) {
+      case 'ArrowUp':
+      case 'ArrowDown':
+        if (ev.altKey) {
+          moveItem(ev.key === 'ArrowUp' ? -1 : 1, 'y');
+        } else {
+          moveRow(ev.key === 'ArrowUp' ? -1 : 1);
+        }
+        break;
+      case 'ArrowLeft':
+      case 'ArrowRight':
+        if (ev.altKey) {
+          moveItem(ev.key === 'ArrowLeft' ? -1 : 1, 'x');
+        } else {
+          moveTime(ev.key === 'ArrowLeft' ? -1 : 1);
+        }
+        break;
+      case 'Enter':
+        toggleRow();
+        break;
+      case ' ':
+        selectFocused(ev.ctrlKey || ev.metaKey);
+        break;
+      default:
+        return;
+    }
+    ev.preventDefault();
+    ev.stopPropagation();
+  }
+
+  function onFocusIn(ev: FocusEvent) {
+    active = true;
+    if (ev.target === main) {
+      const position = getPosition();
+      if (position.rowId !== null && state.get(`_internal.flatTreeMapById.${position.rowId}`)) {
+        focusCell(position.rowId, position.time, position.itemId);
+      } else {
+        focusFirstVisibleCell();
+      }
+      return;
+    }
+    // focused with pointer
+    const target = ev.target as HTMLElement;
+    if (target === focusedElement) return;
+    if (items.has(target)) {
+      const data = items.get(target);
+      state.update(pluginPath, {
+        rowId: data.row.id,
+        time: startOfPeriod(Math.max(data.item.time.start, state.get('_internal.chart.time.leftGlobal'))),
+        itemId: data.item.id
+      });
+    } else if (blocks.has(target)) {
+      const data = blocks.get(target);
+      state.update(pluginPath, { rowId: data.row.id, time: data.time.leftGlobal, itemId: null });
+    } else {
+      return;
+    }
+    syncFocus();
+  }
+
+  function onFocusOut(ev: FocusEvent) {
+    if (!ev.relatedTarget || !main.contains(ev.relatedTarget as Node)) active = false;
+  }
+
+  /**
+   * Main element action - keyboard events, accessible name and live region
+   */
+  class MainAction extends Action {
+    constructor(element: HTMLElement) {
+      super();
+      main = element;
+      element.setAttribute('aria-label', options.label);
+      element.setAttribute('tabindex', '0');
+      element.appendChild(liveRegion);
+      element.addEventListener('keydown', onKeyDown);
+      element.addEventListener('focusin', onFocusIn);
+      element.addEventListener('focusout', onFocusOut);
+    }
+
+    destroy(element: HTMLElement) {
+      element.removeEventListener('keydown', onKeyDown);
+      element.removeEventListener('focusin', onFocusIn);
+      element.removeEventListener('focusout', onFocusOut);
+      liveRegion.remove();
+    }
+  }
+
+  /**
+   * Cells actions - keep track of rendered cells because of the roving tabindex
+   */
+  class CellAction extends Action {
+    private registry: Map<HTMLElement, any>;
+
+    constructor(element: HTMLElement, data, registry: Map<HTMLElement, any>) {
+      super();
+      this.registry = registry;
+      registry.set(element, data);
+      scheduleSync();
+    }
+
+    update(element: HTMLElement, data) {
+      this.registry.set(element, data);
+      if (element === focusedElement) element.setAttribute('tabindex', '-1');
+      scheduleSync();
+    }
+
+    destroy(element: HTMLElement) {
+      this.registry.delete(element);
+      if (element === focusedElement) {
+        focusedElement = null;
+        scheduleSync();
+      }
+    }
+  }
+
+  class BlockAction extends CellAction {
+    constructor(element: HTMLElement, data) {
+      super(element, data, blocks);
+    }
+  }
+
+  class ItemAction extends CellAction {
+    constructor(element: HTMLElement, data) {
+      super(element, data, items);
+    }
+  }
+
+  function addAction(name: string, action) {
+    state.update(`config.actions.${name}`, actions => {
+      actions.push(action);
+      return actions;
+    });
+  }
+
+  return function initialize(mainVido) {
+    vido = mainVido;
+    state = vido.state;
+    api = vido.api;
+    liveRegion.classList.add(api.getClass('live-region'));
+    liveRegion.setAttribute('role', 'status');
+    liveRegion.setAttribute('aria-live', 'polite');
+    liveRegion.setAttribute('aria-atomic', 'true');
+    state.update(pluginPath, { rowId: null, time: null, itemId: null });
+    addAction('main', MainAction);
+    addAction('chart-timeline-grid-row-block', BlockAction);
+    addAction('chart-timeline-items-row-item', ItemAction);
+  };
+}
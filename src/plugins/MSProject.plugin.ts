@@ -0,0 +1,530 @@
+/**
+ * MSProject plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import {
+  Row,
+  Rows,
+  Item,
+  Items,
+  ItemDependency,
+  DependencyType,
+  WorkingTime,
+  WorkingWeek,
+  WorkingHours,
+  WorkingTimeException
+} from '../types';
+import { defaultWorkingWeek } from '../api/WorkingTime';
+
+export interface ImportError {
+  uid?: string;
+  message: string;
+}
+
+export interface ImportResult {
+  rows: Rows;
+  items: Items;
+  workingTime: WorkingTime | null;
+  errors: ImportError[];
+}
+
+export interface MSProjectApi {
+  export: () => string;
+  parse: (xml: string) => ImportResult;
+  import: (xml: string) => ImportResult;
+}
+
+export interface Options {
+  name?: string;
+  labelProperty?: string;
+  onImportError?: (errors: ImportError[]) => void;
+  getApi?: (api: MSProjectApi) => void;
+}
+
+interface Calendar {
+  uid: string;
+  baseUid?: string;
+  week: WorkingWeek;
+  exceptions: WorkingTimeException[];
+}
+
+interface Task {
+  uid: string;
+  name: string;
+  row: Row;
+  item?: Item;
+  children: Task[];
+}
+
+const namespace = 'http://schemas.microsoft.com/project';
+// MSPDI link type is an index of this array
+const linkTypes: DependencyType[] = ['FF', 'FS', 'SF', 'SS'];
+// MSPDI lag is in tenths of a minute
+const lagUnit = 6000;
+const dateFormat = 'YYYY-MM-DDTHH:mm:ss';
+
+function escapeXML(text: string): string {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function getChildren(element: Element | undefined, name: string): Element[] {
+  if (!element) return [];
+  return Array.from(element.children).filter(child => child.localName === name);
+}
+
+function getChild(element: Element | undefined, name: string): Element | undefined {
+  return getChildren(element, name)[0];
+}
+
+function getText(element: Element | undefined, name: string): string | undefined {
+  const child = getChild(element, name);
+  return child ? child.textContent.trim() : undefined;
+}
+
+function tag(name: string, value: string | number, indent: string): string {
+  return `${indent}<${name}>${escapeXML(String(value))}</${name}>`;
+}
+
+/**
+ * MSPDI hours are 'HH:mm:ss' where midnight at the end of the day is '00:00:00'
+ */
+function toHour(time: string, end: boolean): string {
+  const hour = time.slice(0, 5);
+  return end && hour === '00:00' ? '24:00' : hour;
+}
+
+function fromHour(hour: string): string {
+  const [hours, minutes] = hour.split(':').map(Number);
+  const pad = (value: number) => String(value || 0).padStart(2, '0');
+  return `${pad(hours % 24)}:${pad(minutes)}:00`;
+}
+
+function formatDuration(duration: number): string {
+  const seconds = Math.round(duration / 1000);
+  return `PT${Math.floor(seconds / 3600)}H${Math.floor((seconds % 3600) / 60)}M${seconds % 60}S`;
+}
+
+export default function MSProject(options: Options = {}) {
+  let state, api;
+  const defaultOptions: Options = {
+    name: 'Project',
+    labelProperty: 'label',
+    onImportError(errors) {},
+    getApi(api) {}
+  };
+  options = { ...defaultOptions, ...options };
+
+  function formatDate(time: number | string): string {
+    return api.time.date(time).format(dateFormat);
+  }
+
+  function formatDay(time: number | string): string {
+    return api.time.date(time).format('YYYY-MM-DD');
+  }
+
+  function parseHours(element: Element): WorkingHours[] {
+    return getChildren(getChild(element, 'WorkingTimes'), 'WorkingTime')
+      .map(workingTime => ({
+        from: toHour(getText(workingTime, 'FromTime') || '', false),
+        to: toHour(getText(workingTime, 'ToTime') || '', true)
+      }))
+      .filter(hours => hours.from && hours.to);
+  }
+
+  /**
+   * Exceptions are week days with DayType 0 (older files) or Exception elements (MS Project 2007+)
+   * only exception time periods are read - recurring exceptions are not expanded
+   */
+  function parseException(element: Element): WorkingTimeException | null {
+    const period = getChild(element, 'TimePeriod');
+    const from = getText(period, 'FromDate');
+    const to = getText(period, 'ToDate');
+    if (!from || !to) return null;
+    const exception: WorkingTimeException = { from: formatDay(from), to: formatDay(to) };
+    const hours = getText(element, 'DayWorking') === '1' ? parseHours(element) : [];
+    if (hours.length) exception.hours = hours;
+    return exception;
+  }
+
+  function parseCalendar(element: Element): Calendar {
+    const calendar: Calendar = { uid: getText(element, 'UID'), week: {}, exceptions: [] };
+    const baseUid = getText(element, 'BaseCalendarUID');
+    if (baseUid !== undefined && baseUid !== '-1') calendar.baseUid = baseUid;
+    for (const weekDay of getChildren(getChild(element, 'WeekDays'), 'WeekDay')) {
+      const dayType = Number(getText(weekDay, 'DayType'));
+      if (dayType >= 1 && dayType <= 7) {
+        calendar.week[dayType - 1] = getText(weekDay, 'DayWorking') === '1' ? parseHours(weekDay) : [];
+      } else if (dayType === 0) {
+        const exception = parseException(weekDay);
+        if (exception) calendar.exceptions.push(exception);
+      }
+    }
+    for (const exceptionElement of getChildren(getChild(element, 'Exceptions'), 'Exception')) {
+      const exception = parseException(exceptionElement);
+      if (exception) calendar.exceptions.push(exception);
+    }
+    return calendar;
+  }
+
+  /**
+   * Calendar with week days and exceptions of its base calendars
+   * @param {object} calendars
+   * @param {string} uid
+   * @param {array} skip calendars that are not included (project calendar for task calendars)
+   * @returns {object} working time
+   */
+  function resolveCalendar(calendars: { [uid: string]: Calendar }, uid: string, skip: Calendar[] = []): WorkingTime {
+    const chain: Calendar[] = [];
+    for (let calendar = calendars[uid]; calendar && !chain.includes(calendar); calendar = calendars[calendar.baseUid]) {
+      if (!skip.includes(calendar)) chain.unshift(calendar);
+    }
+    // week days that are not defined in calendar and its base calendars are the same as without calendar
+    const week: WorkingWeek = { ...defaultWorkingWeek };
+    const exceptions: WorkingTimeException[] = [];
+    for (const calendar of chain) {
+      Object.assign(week, calendar.week);
+      exceptions.push(...calendar.exceptions);
+    }
+    return { week, exceptions };
+  }
+
+  function parseDate(value: string | undefined): number | null {
+    if (!value) return null;
+    const date = api.time.date(value);
+    return date.isValid() ? date.valueOf() : null;
+  }
+
+  /**
+   * Convert MSPDI xml to rows (tasks hierarchy), items (tasks with dates) and working time (project calendar)
+   * task UID is used as row and item id so edited file can be exported back
+   * @param {string} xml
+   * @returns {object} rows, items, workingTime and errors
+   */
+  function parse(xml: string): ImportResult {
+    const result: ImportResult = { rows: {}, items: {}, workingTime: null, errors: [] };
+    const { rows, items, errors } = result;
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+    const project = document.documentElement;
+    if (document.getElementsByTagName('parsererror').length || !project || project.localName !== 'Project') {
+      errors.push({ message: 'Invalid MSPDI xml - there is no Project element' });
+      return result;
+    }
+    const calendars: { [uid: string]: Calendar } = {};
+    for (const element of getChildren(getChild(project, 'Calendars'), 'Calendar')) {
+      const calendar = parseCalendar(element);
+      if (calendar.uid !== undefined) calendars[calendar.uid] = calendar;
+    }
+    const projectCalendarUid = getText(project, 'CalendarUID');
+    if (projectCalendarUid !== undefined && calendars[projectCalendarUid]) {
+      result.workingTime = resolveCalendar(calendars, projectCalendarUid);
+    }
+    // parents of the current task by outline level
+    const parents: string[] = [];
+    const links: { uid: string; element: Element }[] = [];
+    for (const task of getChildren(getChild(project, 'Tasks'), 'Task')) {
+      const uid = getText(task, 'UID');
+      const level = Number(getText(task, 'OutlineLevel') || 1);
+      if (uid === undefined || uid === '') {
+        errors.push({ message: 'Task without UID' });
+        continue;
+      }
+      // project summary task
+      if (uid === '0' || level === 0) continue;
+      const error = (message: string) => errors.push({ uid, message });
+      if (rows[uid] !== undefined) {
+        error(`Duplicate task UID '${uid}'`);
+        continue;
+      }
+      if (isNaN(level) || level > parents.length + 1) {
+        error(`Invalid outline level '${getText(task, 'OutlineLevel')}'`);
+        continue;
+      }
+      parents.length = level - 1;
+      const name = getText(task, 'Name') || '';
+      const row: Row = { id: uid };
+      row[options.labelProperty] = name;
+      if (parents.length) row.parentId = parents[parents.length - 1];
+      parents.push(uid);
+      const calendarUid = getText(task, 'CalendarUID');
+      if (calendarUid !== undefined && calendarUid !== projectCalendarUid && calendars[calendarUid]) {
+        // rows have their own exceptions only - week days and exceptions are taken from project calendar
+        const { exceptions } = resolveCalendar(calendars, calendarUid, [calendars[projectCalendarUid]]);
+        if (exceptions.length) row.workingTime = { exceptions };
+      }
+      rows[uid] = row;
+      if (getText(task, 'Summary') === '1') {
+        row.summary = true;
+        continue;
+      }
+      const startText = getText(task, 'Start');
+      const finishText = getText(task, 'Finish');
+      if (!startText && !finishText) continue;
+      const start = parseDate(startText);
+      const finish = parseDate(finishText);
+      if (start === null || finish === null) {
+        error(`Invalid ${start === null ? 'start' : 'finish'} date '${start === null ? startText : finishText}'`);
+        continue;
+      }
+      if (finish < start) {
+        error('Finish is before start');
+        continue;
+      }
+      const milestone = getText(task, 'Milestone') === '1' || finish === start;
+      const item: Item = { id: uid, rowId: uid, label: name, time: { start, end: milestone ? start : finish - 1 } };
+      if (milestone) item.type = 'milestone';
+      const progress = Number(getText(task, 'PercentComplete'));
+      if (getText(task, 'PercentComplete') !== undefined && !isNaN(progress)) item.progress = progress;
+      items[uid] = item;
+      for (const element of getChildren(task, 'PredecessorLink')) links.push({ uid, element });
+    }
+    // predecessors are resolved when all tasks are known
+    for (const { uid, element } of links) {
+      const predecessorUid = getText(element, 'PredecessorUID');
+      if (items[predecessorUid] === undefined) {
+        const message =
+          rows[predecessorUid] !== undefined
+            ? `Link with summary task or task without dates '${predecessorUid}' is not supported`
+            : `Unknown predecessor '${predecessorUid}'`;
+        errors.push({ uid, message });
+        continue;
+      }
+      const type = linkTypes[Number(getText(element, 'Type') || 1)] || 'FS';
+      const lag = Number(getText(element, 'LinkLag')) * lagUnit || 0;
+      const dependency: ItemDependency = { id: predecessorUid, type, lag };
+      const item = items[uid];
+      item.linkedWith = [...(item.linkedWith || []), dependency];
+    }
+    return result;
+  }
+
+  /**
+   * Replace rows, items and working time - nothing is changed when there are errors
+   * @param {string} xml
+   * @returns {object} rows, items, workingTime and errors
+   */
+  function importXML(xml: string): ImportResult {
+    const result = parse(xml);
+    if (result.errors.length) {
+      options.onImportError(result.errors);
+      return result;
+    }
+    state.update('config.list.rows', result.rows);
+    state.update('config.chart.items', result.items);
+    if (result.workingTime) state.update('config.chart.workingTime', result.workingTime);
+    return result;
+  }
+
+  /**
+   * Tasks tree - every item is one task and summary rows (or rows with children) are summary tasks
+   * items of other rows are tasks on the level of their row, rows without items are not exported
+   * numeric ids are used as task UIDs (imported files) - other summary rows and items get next free UIDs
+   * @returns {array} root tasks
+   */
+  function getTasks(rows: Rows, items: Items): Task[] {
+    const rowsItems: { [rowId: string]: Item[] } = {};
+    for (const itemId in items) {
+      const item = items[itemId];
+      if (rows[item.rowId] === undefined) continue;
+      if (!rowsItems[item.rowId]) rowsItems[item.rowId] = [];
+      rowsItems[item.rowId].push(item);
+    }
+    const rowsChildren: { [rowId: string]: Row[] } = {};
+    const rootRows: Row[] = [];
+    for (const rowId in rows) {
+      const parentId = rows[rowId].parentId;
+      if (parentId !== undefined && rows[parentId] !== undefined) {
+        if (!rowsChildren[parentId]) rowsChildren[parentId] = [];
+        rowsChildren[parentId].push(rows[rowId]);
+      } else {
+        rootRows.push(rows[rowId]);
+      }
+    }
+    const isSummary = (row: Row) => !!row.summary || rowsChildren[row.id] !== undefined;
+    const summaryRowsIds = Object.keys(rows).filter(rowId => isSummary(rows[rowId]));
+    const itemsIds = Object.keys(items).filter(itemId => rows[items[itemId].rowId] !== undefined);
+    const isUid = (id: string) => /^[1-9]\d*$/.test(id);
+    let next = 1;
+    for (const id of [...summaryRowsIds, ...itemsIds]) {
+      if (isUid(id)) next = Math.max(next, +id + 1);
+    }
+    // UIDs are given in the same order every time so the same rows and items get the same UIDs
+    const used = new Set<string>();
+    const getUid = (id: string) => {
+      const uid = isUid(id) && !used.has(id) ? id : String(next++);
+      used.add(uid);
+      return uid;
+    };
+    const summaryUids: { [rowId: string]: string } = {};
+    for (const rowId of summaryRowsIds) summaryUids[rowId] = getUid(rowId);
+    const itemsUids: { [itemId: string]: string } = {};
+    for (const itemId of itemsIds) itemsUids[itemId] = getUid(itemId);
+    const getRowTasks = (row: Row): Task[] => {
+      const rowItems = (rowsItems[row.id] || []).sort((a, b) => a.time.start - b.time.start);
+      const label = row[options.labelProperty];
+      const rowName = typeof label === 'string' ? label : String(row.id);
+      const itemsTasks: Task[] = rowItems.map(item => ({
+        uid: itemsUids[item.id],
+        name: typeof item.label === 'string' ? item.label : rowName,
+        row,
+        item,
+        children: []
+      }));
+      if (!isSummary(row)) return itemsTasks;
+      const children = (rowsChildren[row.id] || []).reduce((all, child) => all.concat(getRowTasks(child)), itemsTasks);
+      // summary task without sub tasks would be a task without dates
+      if (!children.length) return [];
+      return [{ uid: summaryUids[row.id], name: rowName, row, children }];
+    };
+    return rootRows.reduce((all, row) => all.concat(getRowTasks(row)), []);
+  }
+
+  function getCalendarXML(uid: number, name: string, workingTime: WorkingTime, baseUid?: number): string[] {
+    const indent = '      ';
+    const lines = ['    <Calendar>', tag('UID', uid, indent), tag('Name', name, indent)];
+    lines.push(tag('IsBaseCalendar', baseUid === undefined ? 1 : 0, indent));
+    if (baseUid !== undefined) lines.push(tag('BaseCalendarUID', baseUid, indent));
+    lines.push(`${indent}<WeekDays>`);
+    const weekDay = (dayType: number, hours: WorkingHours[], period?: string[]) => {
+      lines.push(`${indent}  <WeekDay>`, tag('DayType', dayType, indent + '    '));
+      lines.push(tag('DayWorking', hours.length ? 1 : 0, indent + '    '));
+      if (period) {
+        lines.push(`${indent}    <TimePeriod>`, tag('FromDate', period[0], indent + '      '));
+        lines.push(tag('ToDate', period[1], indent + '      '), `${indent}    </TimePeriod>`);
+      }
+      if (hours.length) {
+        lines.push(`${indent}    <WorkingTimes>`);
+        for (const current of hours) {
+          lines.push(`${indent}      <WorkingTime>`, tag('FromTime', fromHour(current.from), indent + '        '));
+          lines.push(tag('ToTime', fromHour(current.to), indent + '        '), `${indent}      </WorkingTime>`);
+        }
+        lines.push(`${indent}    </WorkingTimes>`);
+      }
+      lines.push(`${indent}  </WeekDay>`);
+    };
+    if (workingTime.week) {
+      for (let day = 0; day < 7; day++) weekDay(day + 1, workingTime.week[day] || []);
+    }
+    const exceptions: WorkingTimeException[] = [
+      ...(workingTime.holidays || []).map(holiday => ({ from: holiday, to: holiday })),
+      ...(workingTime.exceptions || [])
+    ];
+    for (const exception of exceptions) {
+      const to = exception.to !== undefined ? exception.to : exception.from;
+      const period = [formatDay(exception.from) + 'T00:00:00', formatDay(to) + 'T23:59:00'];
+      weekDay(0, exception.hours || [], period);
+    }
+    lines.push(`${indent}</WeekDays>`, '    </Calendar>');
+    return lines;
+  }
+
+  /**
+   * Export rows, items, dependencies and working time as MSPDI xml
+   * @returns {string} xml
+   */
+  function exportXML(): string {
+    const rows: Rows = state.get('config.list.rows');
+    const items: Items = state.get('config.chart.items');
+    const workingTime: WorkingTime = state.get('config.chart.workingTime') || { week: defaultWorkingWeek };
+    const roots = getTasks(rows, items);
+    const uids: { [itemId: string]: string } = {};
+    const taskList: { task: Task; level: number; outline: string }[] = [];
+    const walk = (tasks: Task[], level: number, outline: string) =>
+      tasks.forEach((task, index) => {
+        const number = outline + (index + 1);
+        taskList.push({ task, level, outline: number });
+        if (task.item) uids[task.item.id] = task.uid;
+        walk(task.children, level + 1, number + '.');
+      });
+    walk(roots, 1, '');
+    // predecessors from linkedWith and dependant of other items
+    const predecessors: { [itemId: string]: ItemDependency[] } = {};
+    const addLink = (from: string, to: string, dependency: string | ItemDependency) => {
+      const type = typeof dependency === 'object' && dependency.type ? dependency.type : 'FS';
+      const lag = typeof dependency === 'object' ? +dependency.lag || 0 : 0;
+      if (!predecessors[to]) predecessors[to] = [];
+      if (!predecessors[to].some(link => link.id === from)) predecessors[to].push({ id: from, type, lag });
+    };
+    for (const itemId in items) {
+      const item = items[itemId];
+      for (const dependency of item.linkedWith || []) {
+        addLink(typeof dependency === 'object' ? dependency.id : String(dependency), itemId, dependency);
+      }
+      for (const dependency of item.dependant || []) {
+        addLink(itemId, typeof dependency === 'object' ? dependency.id : String(dependency), dependency);
+      }
+    }
+    const itemsList = Object.values(items);
+    const start = itemsList.length ? Math.min(...itemsList.map(item => item.time.start)) : Date.now();
+    const finish = itemsList.length ? Math.max(...itemsList.map(item => item.time.end + 1)) : start;
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      `<Project xmlns="${namespace}">`,
+      tag('SaveVersion', 14, '  '),
+      tag('Name', options.name, '  '),
+      tag('ScheduleFromStart', 1, '  '),
+      tag('StartDate', formatDate(start), '  '),
+      tag('FinishDate', formatDate(finish), '  '),
+      tag('CalendarUID', 1, '  '),
+      '  <Calendars>',
+      ...getCalendarXML(1, 'Standard', workingTime)
+    ];
+    // rows with their own exceptions (vacations) get calendars derived from the project calendar
+    const rowCalendars: { [rowId: string]: number } = {};
+    let calendarUid = 2;
+    for (const rowId in rows) {
+      const rowWorkingTime = rows[rowId].workingTime;
+      if (!rowWorkingTime || !rowWorkingTime.exceptions || !rowWorkingTime.exceptions.length) continue;
+      rowCalendars[rowId] = calendarUid;
+      lines.push(...getCalendarXML(calendarUid++, String(rowId), { exceptions: rowWorkingTime.exceptions }, 1));
+    }
+    lines.push('  </Calendars>', '  <Tasks>');
+    const indent = '      ';
+    taskList.forEach(({ task, level, outline }, index) => {
+      const { row, item } = task;
+      lines.push('    <Task>', tag('UID', task.uid, indent), tag('ID', index + 1, indent));
+      lines.push(tag('Name', task.name, indent));
+      lines.push(tag('OutlineNumber', outline, indent), tag('OutlineLevel', level, indent));
+      if (item) {
+        const milestone = api.isMilestone(item);
+        const end = milestone ? item.time.start : item.time.end + 1;
+        lines.push(tag('Start', formatDate(item.time.start), indent), tag('Finish', formatDate(end), indent));
+        const duration = milestone ? 0 : api.workingTime.getItemWorkingDuration(item);
+        lines.push(tag('Duration', formatDuration(duration), indent));
+      }
+      lines.push(tag('Milestone', item && api.isMilestone(item) ? 1 : 0, indent));
+      lines.push(tag('Summary', task.children.length ? 1 : 0, indent));
+      if (item && typeof item.progress === 'number') {
+        lines.push(tag('PercentComplete', Math.round(item.progress), indent));
+      }
+      if (rowCalendars[row.id] !== undefined) lines.push(tag('CalendarUID', rowCalendars[row.id], indent));
+      for (const link of (item && predecessors[item.id]) || []) {
+        if (uids[link.id] === undefined) continue;
+        lines.push(`${indent}<PredecessorLink>`, tag('PredecessorUID', uids[link.id], indent + '  '));
+        lines.push(tag('Type', linkTypes.indexOf(link.type), indent + '  '));
+        lines.push(tag('LinkLag', Math.round(link.lag / lagUnit), indent + '  '));
+        // lag format - 7 days, 3 minutes
+        lines.push(tag('LagFormat', link.lag % (24 * 60 * 60 * 1000) === 0 ? 7 : 3, indent + '  '));
+        lines.push(`${indent}</PredecessorLink>`);
+      }
+      lines.push('    </Task>');
+    });
+    lines.push('  </Tasks>', '</Project>');
+    return lines.join('\n') + '\n';
+  }
+
+  return function initialize(vido) {
+    state = vido.state;
+    api = vido.api;
+    options.getApi({ export: exportXML, parse, import: importXML });
+  };
+}
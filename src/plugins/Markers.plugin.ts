@@ -0,0 +1,226 @@
+/**
+ * Markers plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import { Action } from '@neuronet.io/vido/vido.esm';
+
+export interface Marker {
+  id: string;
+  time: number;
+  label?: string;
+  color?: string;
+  className?: string;
+  draggable?: boolean;
+}
+
+export interface Markers {
+  [id: string]: Marker;
+}
+
+export interface MarkersApi {
+  add: (marker: Marker) => Marker;
+  remove: (id: string) => void;
+  scrollTo: (id: string) => void;
+  getMarkers: () => Markers;
+}
+
+export interface Options {
+  markers?: Marker[];
+  now?: Partial<Marker> | false;
+  nowInterval?: number;
+  onMove?: (marker: Marker) => void;
+  getApi?: (api: MarkersApi) => void;
+}
+
+const pointerEventsExists = typeof PointerEvent !== 'undefined';
+
+export default function Markers(options: Options = {}) {
+  let state, api;
+  const defaultOptions: Options = {
+    markers: [],
+    now: {},
+    nowInterval: 1000,
+    onMove(marker) {},
+    getApi(api) {}
+  };
+  options = { ...defaultOptions, ...options };
+  const pluginPath = 'config.plugin.Markers';
+  const nowMarker: Marker | null =
+    options.now === false ? null : { id: 'now', label: 'Now', color: '#E74C3C', ...options.now, time: Date.now() };
+
+  let dragging: { id: string; moved: boolean } | null = null;
+
+  function getMarkers(): Markers {
+    return state.get(`${pluginPath}.markers`);
+  }
+
+  /**
+   * Add marker (existing marker with the same id will be replaced)
+   * @param {object} marker
+   * @returns {object} marker
+   */
+  function add(marker: Marker): Marker {
+    const added = { ...marker, id: String(marker.id), time: +marker.time };
+    state.update(`${pluginPath}.markers`, markers => {
+      markers[added.id] = added;
+      return markers;
+    });
+    return added;
+  }
+
+  function remove(id: string) {
+    state.update(`${pluginPath}.markers`, markers => {
+      delete markers[id];
+      return markers;
+    });
+  }
+
+  function scrollTo(id: string) {
+    const marker = getMarkers()[id];
+    if (!marker) {
+      api.log(`Markers: there is no marker with id '${id}'`);
+      return;
+    }
+    api.scrollToTime(marker.time);
+  }
+
+  function getTimeUnderPointer(clientX: number) {
+    const time = state.get('_internal.chart.time');
+    const timeline: HTMLElement = state.get('_internal.elements.chart-timeline');
+    const x = clientX - timeline.getBoundingClientRect().left - api.getCompensationX();
+    return Math.round(time.leftGlobal + x * time.timePerPixel);
+  }
+
+  function onPointerMove(ev: Event) {
+    if (!dragging) return;
+    ev.preventDefault();
+    dragging.moved = true;
+    const time = getTimeUnderPointer(api.normalizePointerEvent(ev).clientX);
+    state.update(`${pluginPath}.markers.${dragging.id}.time`, time);
+  }
+
+  function onPointerUp() {
+    if (!dragging) return;
+    const marker = getMarkers()[dragging.id];
+    if (dragging.moved && marker) options.onMove(marker);
+    dragging = null;
+  }
+
+  /**
+   * Markers action - renders marker lines (timeline) or marker labels (calendar)
+   */
+  class MarkersAction extends Action {
+    private componentName: string;
+    private container: HTMLElement;
+    private unsub: () => void;
+    private down: (ev: Event) => void;
+
+    constructor(element: HTMLElement, componentName: string) {
+      super();
+      this.componentName = componentName;
+      this.container = document.createElement('div');
+      this.container.classList.add(api.getClass(componentName + '-markers'));
+      element.insertAdjacentElement('beforeend', this.container);
+      // only labels can be dragged so line does not block items under it
+      this.down = ev => {
+        const target = (ev.target as HTMLElement).closest('[data-marker-id]') as HTMLElement;
+        if (!target || !this.container.contains(target)) return;
+        const marker = getMarkers()[target.dataset.markerId];
+        if (!marker || !marker.draggable) return;
+        ev.stopPropagation();
+        dragging = { id: marker.id, moved: false };
+      };
+      this.container.addEventListener(pointerEventsExists ? 'pointerdown' : 'mousedown', this.down);
+      if (!pointerEventsExists) this.container.addEventListener('touchstart', this.down);
+      this.unsub = state.subscribeAll(
+        ['_internal.chart.time', 'config.scroll.compensation.x', `${pluginPath}.markers`],
+        () => this.render(),
+        { bulk: true }
+      );
+    }
+
+    render() {
+      const time = state.get('_internal.chart.time');
+      const markers = getMarkers();
+      this.container.innerHTML = '';
+      if (!time || !markers) return;
+      const markerClassName = api.getClass(this.componentName + '-marker');
+      for (const id in markers) {
+        const marker = markers[id];
+        if (marker.time < time.leftGlobal || marker.time > time.rightGlobal) continue;
+        const markerElement = document.createElement('div');
+        markerElement.classList.add(markerClassName);
+        if (marker.draggable) markerElement.classList.add(markerClassName + '--draggable');
+        if (marker.className) markerElement.classList.add(marker.className);
+        markerElement.dataset.markerId = marker.id;
+        markerElement.style.left = api.time.globalTimeToViewPixelOffset(marker.time) + api.getCompensationX() + 'px';
+        if (marker.color) markerElement.style.setProperty('--marker-color', marker.color);
+        // labels are shown inside calendar only
+        if (marker.label && this.componentName === 'chart-calendar') markerElement.textContent = marker.label;
+        this.container.appendChild(markerElement);
+      }
+    }
+
+    destroy() {
+      this.unsub();
+      this.container.removeEventListener(pointerEventsExists ? 'pointerdown' : 'mousedown', this.down);
+      if (!pointerEventsExists) this.container.removeEventListener('touchstart', this.down);
+      this.container.remove();
+    }
+  }
+
+  const moveEvents = pointerEventsExists ? ['pointermove'] : ['mousemove', 'touchmove'];
+  const upEvents = pointerEventsExists ? ['pointerup', 'pointercancel'] : ['mouseup', 'touchend'];
+
+  return function initialize(vido) {
+    state = vido.state;
+    api = vido.api;
+    const markers: Markers = {};
+    for (const marker of options.markers) {
+      markers[marker.id] = { ...marker, id: String(marker.id), time: +marker.time };
+    }
+    if (nowMarker) markers[nowMarker.id] = nowMarker;
+    state.update(pluginPath, { markers });
+    state.update('config.actions.chart-timeline', actions => {
+      actions.push(
+        class TimelineMarkersAction extends MarkersAction {
+          constructor(element: HTMLElement) {
+            super(element, 'chart-timeline');
+          }
+        }
+      );
+      return actions;
+    });
+    state.update('config.actions.chart-calendar', actions => {
+      actions.push(
+        class CalendarMarkersAction extends MarkersAction {
+          constructor(element: HTMLElement) {
+            super(element, 'chart-calendar');
+          }
+        }
+      );
+      return actions;
+    });
+    // "now" marker ticks in real time
+    let interval;
+    if (nowMarker) {
+      interval = setInterval(() => {
+        if (getMarkers()[nowMarker.id]) state.update(`${pluginPath}.markers.${nowMarker.id}.time`, Date.now());
+      }, options.nowInterval);
+    }
+    for (const eventName of moveEvents) document.addEventListener(eventName, onPointerMove);
+    for (const eventName of upEvents) document.addEventListener(eventName, onPointerUp);
+    options.getApi({ add, remove, scrollTo, getMarkers });
+    return function onDestroy() {
+      clearInterval(interval);
+      for (const eventName of moveEvents) document.removeEventListener(eventName, onPointerMove);
+      for (const eventName of upEvents) document.removeEventListener(eventName, onPointerUp);
+    };
+  };
+}
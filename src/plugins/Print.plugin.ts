@@ -0,0 +1,217 @@
+/**
+ * Print plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import Export, { ExportApi, ExportRange, Options as ExportPluginOptions } from './Export.plugin';
+
+export type Paper = 'A3' | 'A4' | 'A5' | 'Letter' | 'Legal';
+export type Orientation = 'portrait' | 'landscape';
+
+export interface PrintOptions {
+  paper?: Paper | { width: number; height: number };
+  orientation?: Orientation;
+  margin?: number;
+  scale?: number;
+  list?: boolean;
+  range?: ExportRange;
+  from?: number;
+  to?: number;
+}
+
+export interface PrintPage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+export interface PrintApi {
+  getPages: (printOptions?: PrintOptions) => PrintPage[];
+  print: (printOptions?: PrintOptions) => void;
+}
+
+export interface Options extends PrintOptions {
+  browserPrint?: boolean;
+  export?: ExportPluginOptions;
+  getApi?: (api: PrintApi) => void;
+}
+
+// paper sizes in millimeters (portrait)
+const papers = {
+  A3: { width: 297, height: 420 },
+  A4: { width: 210, height: 297 },
+  A5: { width: 148, height: 210 },
+  Letter: { width: 215.9, height: 279.4 },
+  Legal: { width: 215.9, height: 355.6 }
+};
+const pixelsPerMillimeter = 96 / 25.4;
+// list columns are not repeated when there would be less space for the chart
+const minChartWidth = 100;
+
+export default function Print(options: Options = {}) {
+  let state, api;
+  const defaultOptions: Options = {
+    paper: 'A4',
+    orientation: 'landscape',
+    margin: 10,
+    scale: 1,
+    list: true,
+    range: 'full',
+    browserPrint: true,
+    export: {},
+    getApi(api) {}
+  };
+  options = { ...defaultOptions, ...options };
+
+  let exporter: ExportApi;
+  let container: HTMLElement | null = null;
+  let pageStyle: HTMLStyleElement | null = null;
+
+  /**
+   * Paper size in millimeters with orientation applied
+   */
+  function getPaperSize(printOptions: PrintOptions) {
+    const paper = typeof printOptions.paper === 'object' ? printOptions.paper : papers[printOptions.paper] || papers.A4;
+    const short = Math.min(paper.width, paper.height);
+    const long = Math.max(paper.width, paper.height);
+    return printOptions.orientation === 'landscape' ? { width: long, height: short } : { width: short, height: long };
+  }
+
+  function getListWidth(): number {
+    const columns = state.get('config.list.columns.data') || {};
+    return Object.keys(columns).reduce((width, id) => width + columns[id].width, 0);
+  }
+
+  /**
+   * Split expanded rows into pages by their heights - row higher than the page gets its own page
+   * @param {number} height available height of the rows
+   * @returns {array} rows indexes of the pages
+   */
+  function getRowsPages(height: number): { rowsFrom: number; rowsTo: number; height: number }[] {
+    const rows = state.get('_internal.list.rowsWithParentsExpanded') || [];
+    const pages = [];
+    let page = { rowsFrom: 0, rowsTo: 0, height: 0 };
+    rows.forEach((row, index) => {
+      if (!row) return;
+      if (page.rowsTo > page.rowsFrom && page.height + row.height > height) {
+        pages.push(page);
+        page = { rowsFrom: index, rowsTo: index, height: 0 };
+      }
+      page.rowsTo = index + 1;
+      page.height += row.height;
+    });
+    if (page.rowsTo > page.rowsFrom) pages.push(page);
+    return pages;
+  }
+
+  /**
+   * Pages of the whole chart (or its part) - down then across, every page repeats calendar header and list columns
+   * @param {object} printOptions
+   * @returns {array} svg pages
+   */
+  function getPages(printOptions: PrintOptions = {}): PrintPage[] {
+    printOptions = { ...options, ...printOptions };
+    const paper = getPaperSize(printOptions);
+    const scale = printOptions.scale > 0 ? printOptions.scale : 1;
+    const width = ((paper.width - printOptions.margin * 2) * pixelsPerMillimeter) / scale;
+    const height = ((paper.height - printOptions.margin * 2) * pixelsPerMillimeter) / scale;
+    const time = state.get('_internal.chart.time');
+    const full = printOptions.range !== 'viewport';
+    const from = printOptions.from !== undefined ? +printOptions.from : full ? time.finalFrom : time.leftGlobal;
+    const to = printOptions.to !== undefined ? +printOptions.to : full ? time.finalTo : time.rightGlobal;
+    let listWidth = printOptions.list ? getListWidth() : 0;
+    if (width - listWidth < minChartWidth) {
+      api.log('Print: list columns are too wide for the page - only chart is printed');
+      listWidth = 0;
+    }
+    const headerHeight = state.get('config.headerHeight');
+    const pageTime = Math.max(Math.floor((width - listWidth) * time.timePerPixel), 1);
+    const rowsPages = getRowsPages(height - headerHeight);
+    const pages: PrintPage[] = [];
+    for (let pageFrom = from; pageFrom < to; pageFrom += pageTime) {
+      const pageTo = Math.min(pageFrom + pageTime, to);
+      for (const { rowsFrom, rowsTo, height: rowsHeight } of rowsPages) {
+        const svg = exporter.toSVG({ from: pageFrom, to: pageTo, list: listWidth > 0, rowsFrom, rowsTo });
+        pages.push({
+          svg,
+          width: listWidth + Math.max(Math.round((pageTo - pageFrom) / time.timePerPixel), 0),
+          height: headerHeight + rowsHeight
+        });
+      }
+    }
+    return pages;
+  }
+
+  /**
+   * Put pages into the document - other elements are hidden while printing
+   * @param {object} printOptions
+   */
+  function render(printOptions: PrintOptions = {}) {
+    printOptions = { ...options, ...printOptions };
+    const className = api.getClass('print');
+    const scale = printOptions.scale > 0 ? printOptions.scale : 1;
+    if (!container) {
+      container = document.createElement('div');
+      container.classList.add(className);
+      document.body.appendChild(container);
+      pageStyle = document.createElement('style');
+      document.head.appendChild(pageStyle);
+    }
+    const paper = getPaperSize(printOptions);
+    // other elements are hidden only while pages are rendered - style is removed with them after print
+    pageStyle.textContent = `
+      @page { size: ${paper.width}mm ${paper.height}mm; margin: ${printOptions.margin}mm; }
+      @media print {
+        body > *:not(.${className}) { display: none !important; }
+        .${className} { display: block !important; }
+      }
+    `;
+    container.innerHTML = '';
+    for (const page of getPages(printOptions)) {
+      const pageElement = document.createElement('div');
+      pageElement.classList.add(className + '-page');
+      pageElement.innerHTML = page.svg;
+      // svg has viewBox so it is scaled with its size
+      const svg = pageElement.firstElementChild;
+      svg.setAttribute('width', String(page.width * scale));
+      svg.setAttribute('height', String(page.height * scale));
+      container.appendChild(pageElement);
+    }
+  }
+
+  function cleanup() {
+    if (container) container.remove();
+    if (pageStyle) pageStyle.remove();
+    container = null;
+    pageStyle = null;
+  }
+
+  function print(printOptions: PrintOptions = {}) {
+    render(printOptions);
+    window.print();
+  }
+
+  // printing from the browser menu (ctrl+p) - pages are rendered only when they are not rendered by api
+  function beforePrint() {
+    if (!container) render();
+  }
+
+  return function initialize(vido) {
+    state = vido.state;
+    api = vido.api;
+    Export({ ...options.export, getApi: exportApi => (exporter = exportApi) })(vido);
+    if (options.browserPrint) window.addEventListener('beforeprint', beforePrint);
+    window.addEventListener('afterprint', cleanup);
+    options.getApi({ getPages, print });
+    return function onDestroy() {
+      window.removeEventListener('beforeprint', beforePrint);
+      window.removeEventListener('afterprint', cleanup);
+      cleanup();
+    };
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Progress plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import { Action } from '@neuronet.io/vido/vido.esm';
+
+export interface Options {
+  step?: number;
+  handleContent?: string;
+  onChange?: (item: object, progress: number) => void;
+}
+
+const pointerEventsExists = typeof PointerEvent !== 'undefined';
+
+export default function Progress(options: Options = {}) {
+  let state, api, handleClassName;
+  const defaultOptions: Options = {
+    step: 1,
+    handleContent: '',
+    onChange(item, progress) {}
+  };
+  options = { ...defaultOptions, ...options };
+
+  function isEditable(data) {
+    if (api.isMilestone(data.item)) return false;
+    if (data.item.hasOwnProperty('progressEditable')) return !!data.item.progressEditable;
+    return true;
+  }
+
+  /**
+   * Progress handle action - drag handle changes item.progress
+   */
+  class ProgressAction extends Action {
+    private handle: HTMLElement;
+    private data;
+    private dragging = false;
+    private down: (ev: Event) => void;
+    private move: (ev: Event) => void;
+    private up: (ev: Event) => void;
+
+    constructor(element: HTMLElement, data) {
+      super();
+      this.data = data;
+      element.insertAdjacentHTML('beforeend', `<div class="${handleClassName}">${options.handleContent}</div>`);
+      this.handle = element.querySelector('.' + handleClassName);
+
+      this.down = ev => {
+        // stop item movement and selection
+        ev.stopPropagation();
+        if (this.dragging) return;
+        if ((ev.type === 'pointerdown' || ev.type === 'mousedown') && (ev as MouseEvent).button !== 0) return;
+        ev.preventDefault();
+        this.dragging = true;
+      };
+
+      this.move = ev => {
+        if (!this.dragging) return;
+        ev.stopPropagation();
+        ev.preventDefault();
+        const normalized = api.normalizePointerEvent(ev);
+        const rect = element.getBoundingClientRect();
+        if (!rect.width) return;
+        let progress = ((normalized.clientX - rect.left) / rect.width) * 100;
+        progress = Math.round(progress / options.step) * options.step;
+        progress = Math.min(Math.max(progress, 0), 100);
+        const itemId = this.data.item.id;
+        if (state.get(`config.chart.items.${itemId}.progress`) === progress) return;
+        state.update(`config.chart.items.${itemId}.progress`, progress);
+        options.onChange(state.get(`config.chart.items.${itemId}`), progress);
+      };
+
+      this.up = ev => {
+        if (!this.dragging) return;
+        ev.stopPropagation();
+        ev.preventDefault();
+        this.dragging = false;
+      };
+
+      if (pointerEventsExists) {
+        this.handle.addEventListener('pointerdown', this.down);
+        document.addEventListener('pointermove', this.move);
+        document.addEventListener('pointerup', this.up);
+      } else {
+        document.addEventListener('mousemove', this.move);
+        document.addEventListener('touchmove', this.move);
+        document.addEventListener('mouseup', this.up);
+        document.addEventListener('touchend', this.up);
+      }
+      this.handle.addEventListener('mousedown', this.down);
+      this.handle.addEventListener('touchstart', this.down);
+      this.updateHandle();
+    }
+
+    update(element: HTMLElement, data) {
+      this.data = data;
+      this.updateHandle();
+    }
+
+    updateHandle() {
+      const progress = typeof this.data.item.progress === 'number' ? this.data.item.progress : 0;
+      this.handle.style.left = Math.min(Math.max(progress, 0), 100) + '%';
+      this.handle.style.visibility = isEditable(this.data) ? 'visible' : 'hidden';
+    }
+
+    destroy(element: HTMLElement) {
+      if (pointerEventsExists) {
+        this.handle.removeEventListener('pointerdown', this.down);
+        document.removeEventListener('pointermove', this.move);
+        document.removeEventListener('pointerup', this.up);
+      } else {
+        document.removeEventListener('mousemove', this.move);
+        document.removeEventListener('touchmove', this.move);
+        document.removeEventListener('mouseup', this.up);
+        document.removeEventListener('touchend', this.up);
+      }
+      this.handle.removeEventListener('mousedown', this.down);
+      this.handle.removeEventListener('touchstart', this.down);
+      this.handle.remove();
+    }
+  }
+
+  return function initialize(vido) {
+    state = vido.state;
+    api = vido.api;
+    handleClassName = api.getClass('chart-timeline-items-row-item-progress-handle');
+    state.update('config.actions.chart-timeline-items-row-item', actions => {
+      actions.push(ProgressAction);
+      return actions;
+    });
+  };
+}
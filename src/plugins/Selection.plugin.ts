@@ -256,6 +256,8 @@ export default function Selection(options: Options = {}) {
   }
 
   let previousSelect;
+  // item pressed inside multiple selection - selected alone only when it was not dragged with the others
+  let pressedSelectedItem: string | null = null;
   function markSelected(addToPrevious = false) {
     selecting.selecting = false;
     rect.style.visibility = 'hidden';
@@ -333,6 +335,20 @@ export default function Selection(options: Options = {}) {
     });
   }
 
+  /**
+   * Select items or grid blocks by id without pointer (used by other plugins like KeyboardNavigation)
+   * @param {string} type 'chart-timeline-items-row-item' or 'chart-timeline-grid-row-block'
+   * @param {string[]} ids
+   * @param {boolean} addToPrevious
+   */
+  function select(type: string, ids: string[], addToPrevious = false) {
+    previousSelect = cloneSelection(state.get(pluginPath));
+    const container = getEmptyContainer();
+    container[type + 's'] = ids.slice();
+    markSelecting(container);
+    markSelected(addToPrevious);
+  }
+
   /**
    * Clone current selection state
    * @param {object} currentSelect
@@ -523,6 +539,10 @@ export default function Selection(options: Options = {}) {
           if (selecting.startX === normalized.x - this.left && selecting.startY === normalized.y - this.top) {
             selecting.selecting = false;
             rect.style.visibility = 'hidden';
+            if (pressedSelectedItem !== null) {
+              select('chart-timeline-items-row-item', [pressedSelectedItem]);
+              pressedSelectedItem = null;
+            }
             return;
           }
         } else {
@@ -530,6 +550,9 @@ export default function Selection(options: Options = {}) {
           const isItem = !!(ev.target as Element).closest(itemClass);
           if (!isItem) {
             if (!ev.ctrlKey) clearSelection();
+          } else if (pressedSelectedItem !== null) {
+            // items were moved together so they stay selected
+            pressedSelectedItem = null;
           } else {
             markSelected(ev.ctrlKey);
           }
@@ -688,6 +711,13 @@ export default function Selection(options: Options = {}) {
     }
 
     public onPointerDown(ev) {
+      const selected = state.get(`${pluginPath}.selected.chart-timeline-items-row-items`) || [];
+      if (!ev.ctrlKey && selected.length > 1 && selected.includes(this.data.item.id)) {
+        // keep selection so all selected items could be moved together
+        pressedSelectedItem = this.data.item.id;
+        return;
+      }
+      pressedSelectedItem = null;
       previousSelect = cloneSelection(state.get(pluginPath));
       selecting.selecting = true;
       this.data.item.selected = true;
@@ -791,5 +821,6 @@ export default function Selection(options: Options = {}) {
       onCreate.push(onBlockCreate);
       return onCreate;
     });
+    state.update('_internal.plugin.selection.select', () => select);
   };
 }
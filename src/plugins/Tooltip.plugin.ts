@@ -0,0 +1,279 @@
+/**
+ * Tooltip plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import { Action } from '@neuronet.io/vido/vido.esm';
+import { ItemTime } from '../types';
+
+export type TooltipType = 'item' | 'grid-block' | 'calendar-date';
+
+export interface TemplateProps {
+  type: TooltipType;
+  item?: any;
+  row?: any;
+  time: ItemTime;
+  vido: any;
+  format: (time: number) => string;
+  moving: boolean;
+}
+
+export interface Options {
+  items?: boolean;
+  gridBlocks?: boolean;
+  calendarDates?: boolean;
+  format?: string;
+  delay?: number;
+  offset?: number;
+  template?: (props: TemplateProps) => string;
+}
+
+interface Target {
+  type: TooltipType;
+  element: HTMLElement;
+  data: any;
+}
+
+const pointerEventsExists = typeof PointerEvent !== 'undefined';
+
+function escapeHTML(text: string) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export default function Tooltip(options: Options = {}) {
+  let vido, state, api, className;
+  const defaultOptions: Options = {
+    items: true,
+    gridBlocks: true,
+    calendarDates: true,
+    format: 'YYYY-MM-DD HH:mm',
+    delay: 300,
+    offset: 12,
+    template({ type, item, time, format }) {
+      const range = `${format(time.start)} - ${format(time.end)}`;
+      if (type !== 'item') return range;
+      const label = item.isHtml ? item.label : escapeHTML(item.label);
+      if (vido.api.isMilestone(item)) return `<div class="${className}-title">${label}</div>${format(time.start)}`;
+      return `<div class="${className}-title">${label}</div>${range}`;
+    }
+  };
+  options = { ...defaultOptions, ...options };
+
+  const tooltip = document.createElement('div');
+  const pointer = { x: 0, y: 0 };
+  let current: Target | null = null,
+    movingItemId: string | null = null,
+    timeout,
+    unsubMoving: () => void;
+
+  function format(time: number) {
+    return api.time.date(time).format(options.format);
+  }
+
+  function getTemplateProps(target: Target): TemplateProps {
+    const props: TemplateProps = { type: target.type, time: undefined, vido, format, moving: false };
+    switch (target.type) {
+      case 'item':
+        props.item = target.data.item;
+        props.row = target.data.row;
+        props.time = { ...target.data.item.time };
+        break;
+      case 'grid-block':
+        props.row = target.data.row;
+        props.time = { start: target.data.time.leftGlobal, end: target.data.time.rightGlobal };
+        break;
+      case 'calendar-date':
+        props.time = { start: target.data.date.leftGlobal, end: target.data.date.rightGlobal };
+        break;
+    }
+    return props;
+  }
+
+  function getMovingItemProps(): TemplateProps | undefined {
+    const item = state.get(`config.chart.items.${movingItemId}`);
+    if (!item) return;
+    return {
+      type: 'item',
+      item,
+      row: state.get(`config.list.rows.${item.rowId}`),
+      time: { ...item.time },
+      vido,
+      format,
+      moving: true
+    };
+  }
+
+  /**
+   * Place tooltip next to the pointer but keep it inside main element
+   */
+  function updatePosition() {
+    const main = state.get('_internal.elements.main');
+    if (!main || tooltip.style.visibility !== 'visible') return;
+    const mainRect = main.getBoundingClientRect();
+    const width = tooltip.offsetWidth;
+    const height = tooltip.offsetHeight;
+    let left = pointer.x + options.offset;
+    let top = pointer.y + options.offset;
+    if (left + width > mainRect.right) left = pointer.x - options.offset - width;
+    if (top + height > mainRect.bottom) top = pointer.y - options.offset - height;
+    left = Math.max(mainRect.left, Math.min(left, mainRect.right - width));
+    top = Math.max(mainRect.top, Math.min(top, mainRect.bottom - height));
+    tooltip.style.left = left + 'px';
+    tooltip.style.top = top + 'px';
+  }
+
+  function render() {
+    let props: TemplateProps | undefined;
+    if (movingItemId !== null) {
+      props = getMovingItemProps();
+    } else if (current) {
+      props = getTemplateProps(current);
+    }
+    if (!props) return hide();
+    const main = state.get('_internal.elements.main');
+    if (!main) return;
+    if (tooltip.parentNode !== main) main.appendChild(tooltip);
+    tooltip.innerHTML = options.template(props);
+    tooltip.style.visibility = 'visible';
+    updatePosition();
+  }
+
+  function hide() {
+    clearTimeout(timeout);
+    tooltip.style.visibility = 'hidden';
+  }
+
+  function savePointer(ev) {
+    const normalized = api.normalizePointerEvent(ev);
+    pointer.x = normalized.clientX;
+    pointer.y = normalized.clientY;
+  }
+
+  function documentMove(ev) {
+    if (movingItemId === null) return;
+    savePointer(ev);
+    updatePosition();
+  }
+
+  /**
+   * Show tooltip for items, grid blocks or calendar dates
+   */
+  class TooltipAction extends Action {
+    private target: Target;
+    private enter: (ev: Event) => void;
+    private move: (ev: Event) => void;
+    private leave: (ev: Event) => void;
+
+    constructor(element: HTMLElement, data, type: TooltipType) {
+      super();
+      this.target = { type, element, data };
+      this.enter = ev => {
+        savePointer(ev);
+        current = this.target;
+        clearTimeout(timeout);
+        if (movingItemId !== null) return;
+        timeout = setTimeout(render, options.delay);
+      };
+      this.move = ev => {
+        savePointer(ev);
+        if (current === this.target) updatePosition();
+      };
+      this.leave = () => {
+        if (current !== this.target) return;
+        current = null;
+        if (movingItemId === null) hide();
+      };
+      element.addEventListener(pointerEventsExists ? 'pointerenter' : 'mouseenter', this.enter);
+      element.addEventListener(pointerEventsExists ? 'pointermove' : 'mousemove', this.move);
+      element.addEventListener(pointerEventsExists ? 'pointerleave' : 'mouseleave', this.leave);
+    }
+
+    update(element: HTMLElement, data) {
+      this.target.data = data;
+      if (current === this.target && tooltip.style.visibility === 'visible') render();
+    }
+
+    destroy(element: HTMLElement) {
+      element.removeEventListener(pointerEventsExists ? 'pointerenter' : 'mouseenter', this.enter);
+      element.removeEventListener(pointerEventsExists ? 'pointermove' : 'mousemove', this.move);
+      element.removeEventListener(pointerEventsExists ? 'pointerleave' : 'mouseleave', this.leave);
+      if (current === this.target) this.leave(null);
+    }
+  }
+
+  class ItemTooltipAction extends TooltipAction {
+    constructor(element: HTMLElement, data) {
+      super(element, data, 'item');
+    }
+  }
+
+  class GridBlockTooltipAction extends TooltipAction {
+    constructor(element: HTMLElement, data) {
+      super(element, data, 'grid-block');
+    }
+  }
+
+  class CalendarDateTooltipAction extends TooltipAction {
+    constructor(element: HTMLElement, data) {
+      super(element, data, 'calendar-date');
+    }
+  }
+
+  /**
+   * Show live times of the item that is moved or resized by ItemMovement plugin
+   * @param {object} movement
+   */
+  function onItemMovement(movement) {
+    if (movement && (movement.moving || movement.resizing) && movement.id !== undefined) {
+      if (movingItemId === movement.id) return;
+      movingItemId = movement.id;
+      if (unsubMoving) unsubMoving();
+      unsubMoving = state.subscribeAll([`config.chart.items.${movingItemId}.time`, '_internal.chart.time'], render, {
+        bulk: true
+      });
+      return;
+    }
+    if (movingItemId === null) return;
+    movingItemId = null;
+    if (unsubMoving) unsubMoving();
+    unsubMoving = undefined;
+    hide();
+  }
+
+  function addAction(name: string, action) {
+    state.update(`config.actions.${name}`, actions => {
+      actions.push(action);
+      return actions;
+    });
+  }
+
+  return function initialize(mainVido) {
+    vido = mainVido;
+    state = vido.state;
+    api = vido.api;
+    className = api.getClass('tooltip');
+    tooltip.classList.add(className);
+    tooltip.style.visibility = 'hidden';
+    if (options.items) addAction('chart-timeline-items-row-item', ItemTooltipAction);
+    if (options.gridBlocks) addAction('chart-timeline-grid-row-block', GridBlockTooltipAction);
+    if (options.calendarDates) addAction('chart-calendar-date', CalendarDateTooltipAction);
+    const unsubMovement = state.subscribe('config.plugin.ItemMovement.item', onItemMovement);
+    document.addEventListener(pointerEventsExists ? 'pointermove' : 'mousemove', documentMove);
+    return function onDestroy() {
+      unsubMovement();
+      if (unsubMoving) unsubMoving();
+      clearTimeout(timeout);
+      document.removeEventListener(pointerEventsExists ? 'pointermove' : 'mousemove', documentMove);
+      tooltip.remove();
+    };
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * WorkingTimeHighlight plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import { Action } from '@neuronet.io/vido/vido.esm';
+
+export interface Options {
+  className?: string;
+  color?: string;
+  minWidth?: number;
+}
+
+export default function WorkingTimeHighlight(options: Options = {}) {
+  const defaultOptions: Options = {
+    className: '',
+    color: '#f3f4f6',
+    minWidth: 1
+  };
+  options = { ...defaultOptions, ...options };
+
+  let api;
+  let className;
+  let enabled = false;
+  const highlighted = new Set<WorkingTimeHighlightAction>();
+
+  /**
+   * Blocks that are not working time at all get class name, partially working blocks get gradient
+   */
+  class WorkingTimeHighlightAction extends Action {
+    private element: HTMLElement;
+    private data;
+
+    constructor(element: HTMLElement, data) {
+      super();
+      this.element = element;
+      this.data = data;
+      highlighted.add(this);
+      this.highlight();
+    }
+
+    update(element: HTMLElement, data) {
+      this.data = data;
+      this.highlight();
+    }
+
+    destroy(element: HTMLElement) {
+      highlighted.delete(this);
+      element.classList.remove(className);
+      element.style.backgroundImage = '';
+    }
+
+    highlight() {
+      const { time, row } = this.data;
+      const from = time.leftGlobal;
+      const to = time.rightGlobal + 1;
+      const pixelsPerMs = time.width / (to - from);
+      const nonWorking = enabled
+        ? api.workingTime
+            .getNonWorkingIntervals(from, to, row.id)
+            .filter(interval => (interval.end - interval.start) * pixelsPerMs >= options.minWidth)
+        : [];
+      const full = nonWorking.length === 1 && nonWorking[0].start === from && nonWorking[0].end === to;
+      if (full !== this.element.classList.contains(className)) {
+        this.element.classList.toggle(className, full);
+      }
+      let backgroundImage = '';
+      if (!full && nonWorking.length) {
+        const stops = [];
+        for (const interval of nonWorking) {
+          const start = ((interval.start - from) / (to - from)) * 100;
+          const end = ((interval.end - from) / (to - from)) * 100;
+          stops.push(
+            `transparent ${start}%`,
+            `${options.color} ${start}%`,
+            `${options.color} ${end}%`,
+            `transparent ${end}%`
+          );
+        }
+        backgroundImage = `linear-gradient(to right, ${stops.join(', ')})`;
+      }
+      if (this.element.style.backgroundImage !== backgroundImage) {
+        this.element.style.backgroundImage = backgroundImage;
+      }
+    }
+  }
+
+  return function initialize(vido) {
+    api = vido.api;
+    className = options.className || api.getClass('chart-timeline-grid-row-block') + '--non-working';
+    const destroy = vido.state.subscribeAll(
+      ['config.chart.workingTime', 'config.list.rows.*.workingTime'],
+      () => {
+        enabled = api.workingTime.isEnabled();
+        for (const action of highlighted) action.highlight();
+      },
+      { bulk: true }
+    );
+    vido.state.update('config.actions.chart-timeline-grid-row-block', actions => {
+      actions.push(WorkingTimeHighlightAction);
+      return actions;
+    });
+    return function onDestroy() {
+      destroy();
+    };
+  };
+}
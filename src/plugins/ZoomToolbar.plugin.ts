@@ -0,0 +1,85 @@
+/**
+ * ZoomToolbar plugin
+ *
+ * @copyright Rafal Pospiech <https://neuronet.io>
+ * @author    Rafal Pospiech <neuronet.io@gmail.com>
+ * @package   gantt-schedule-timeline-calendar
+ * @license   AGPL-3.0 (https://github.com/neuronetio/gantt-schedule-timeline-calendar/blob/master/LICENSE)
+ * @link      https://github.com/neuronetio/gantt-schedule-timeline-calendar
+ */
+
+import { Period } from '../types';
+
+export interface Labels {
+  zoomIn?: string;
+  zoomOut?: string;
+  fit?: string;
+  periods?: { [period: string]: string };
+}
+
+export interface Options {
+  step?: number;
+  fit?: boolean;
+  periods?: Period[];
+  labels?: Labels;
+}
+
+export default function ZoomToolbar(options: Options = {}) {
+  const defaultOptions: Options = {
+    step: 1,
+    fit: true,
+    periods: ['day', 'week', 'month'],
+    labels: {}
+  };
+  options = { ...defaultOptions, ...options };
+  const labels: Labels = { zoomIn: '+', zoomOut: '−', fit: 'Fit', periods: {}, ...options.labels };
+
+  /**
+   * Toolbar component rendered inside chart slot - buttons are using zoom api
+   */
+  function ZoomToolbarComponent(vido, props) {
+    const { api, state, html, onDestroy, update } = vido;
+    const className = api.getClass('chart-zoom-toolbar');
+    const buttonClassName = className + '-button';
+    let period: Period;
+    onDestroy(
+      state.subscribe('config.chart.time.period', value => {
+        period = value;
+        update();
+      })
+    );
+
+    const zoomIn = () => api.zoomIn(options.step);
+    const zoomOut = () => api.zoomOut(options.step);
+    const fit = () => api.zoomToFit();
+
+    return templateProps => html`
+      <div class=${className} role="toolbar">
+        <button class=${buttonClassName} title="Zoom in" @click=${zoomIn}>${labels.zoomIn}</button>
+        <button class=${buttonClassName} title="Zoom out" @click=${zoomOut}>${labels.zoomOut}</button>
+        ${options.fit
+          ? html`
+              <button class=${buttonClassName} title="Zoom to fit" @click=${fit}>${labels.fit}</button>
+            `
+          : ''}
+        ${options.periods.map(
+          current => html`
+            <button
+              class=${buttonClassName + (current === period ? ' ' + buttonClassName + '--active' : '')}
+              @click=${() => api.zoomToPeriod(current)}
+            >
+              ${labels.periods[current] || current}
+            </button>
+          `
+        )}
+      </div>
+    `;
+  }
+
+  return function initialize(vido) {
+    vido.state.update('config.slots.chart.after', components => {
+      components.push(ZoomToolbarComponent);
+      return components;
+    });
+  };
+}
@@ -3,5 +3,47 @@ import ItemMovement from './ItemMovement.plugin';
 import Selection from './Selection.plugin';
 import CalendarScroll from './CalendarScroll.plugin';
 import WeekendHighlight from './WeekendHighlight.plugin';
+import Dependencies from './Dependencies.plugin';
+import CriticalPath from './CriticalPath.plugin';
+import Progress from './Progress.plugin';
+import Baselines from './Baselines.plugin';
+import Tooltip from './Tooltip.plugin';
+import ContextMenu from './ContextMenu.plugin';
+import History from './History.plugin';
+import KeyboardNavigation from './KeyboardNavigation.plugin';
+import Clipboard from './Clipboard.plugin';
+import ItemCreation from './ItemCreation.plugin';
+import WorkingTimeHighlight from './WorkingTimeHighlight.plugin';
+import Markers from './Markers.plugin';
+import ZoomToolbar from './ZoomToolbar.plugin';
+import Export from './Export.plugin';
+import CSV from './CSV.plugin';
+import ICalendar from './ICalendar.plugin';
+import MSProject from './MSProject.plugin';
+import Print from './Print.plugin';
 
-export default { ItemHold, ItemMovement, Selection, CalendarScroll, WeekendHighlight };
+export default {
+  ItemHold,
+  ItemMovement,
+  Selection,
+  CalendarScroll,
+  WeekendHighlight,
+  Dependencies,
+  CriticalPath,
+  Progress,
+  Baselines,
+  Tooltip,
+  ContextMenu,
+  History,
+  KeyboardNavigation,
+  Clipboard,
+  ItemCreation,
+  WorkingTimeHighlight,
+  Markers,
+  ZoomToolbar,
+  Export,
+  CSV,
+  ICalendar,
+  MSProject,
+  Print
+};
@@ -2,10 +2,19 @@ import Vido, { lithtml, vido } from '@neuronet.io/vido';
 import { Dayjs } from 'dayjs/index.d';
 import dayjs = require('dayjs/index.d');
 
+export type Resizable = boolean | 'left' | 'right' | 'both';
+
 export interface Row {
   id: string;
   parentId?: string;
   expanded?: boolean;
+  height?: number;
+  stacking?: boolean;
+  laneHeight?: number;
+  summary?: boolean;
+  creatable?: boolean;
+  resizable?: Resizable;
+  workingTime?: RowWorkingTime;
 }
 
 export interface Rows {
@@ -17,11 +26,62 @@ export interface ItemTime {
   end: number;
 }
 
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+
+export interface ItemDependency {
+  id: string;
+  type?: DependencyType;
+  lag?: number;
+}
+
+export interface DependencyLink {
+  fromId: string;
+  toId: string;
+  type: DependencyType;
+  lag: number;
+}
+
+export type RescheduleMode = 'push' | 'push-pull';
+
+export interface ItemsTimes {
+  [itemId: string]: ItemTime;
+}
+
+export interface RescheduleResult {
+  times: ItemsTimes;
+  cycle: string[];
+}
+
+export interface ItemSchedule {
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+  totalFloat: number;
+  critical: boolean;
+}
+
+export interface CriticalPathResult {
+  items: { [itemId: string]: ItemSchedule };
+  criticalPath: string[];
+  projectFinish: number;
+  cycle: string[];
+}
+
+export type ItemType = 'task' | 'milestone';
+
 export interface Item {
   id: string;
   rowId: string;
   time: ItemTime;
   label: string;
+  type?: ItemType;
+  progress?: number;
+  dependant?: (string | ItemDependency)[];
+  linkedWith?: (string | ItemDependency)[];
+  resizable?: Resizable;
+  minDuration?: number;
+  maxDuration?: number;
 }
 
 export interface Items {
@@ -43,7 +103,8 @@ export interface Wrappers {
 }
 
 export interface Slot {
-  [key: string]: htmlResult[];
+  before?: Component[];
+  after?: Component[];
 }
 export interface Slots {
   [name: string]: Slot;
@@ -104,6 +165,7 @@ export interface ListToggle {
 export interface List {
   rows?: Rows;
   rowHeight?: number;
+  stacking?: boolean;
   columns?: Columns;
   expander?: Expander;
   toggle?: ListToggle;
@@ -221,12 +283,39 @@ export interface ChartGridBlock {
 export interface ChartGrid {
   block?: ChartGridBlock;
 }
+export interface WorkingHours {
+  from: string;
+  to: string;
+}
+
+export interface WorkingWeek {
+  [weekday: number]: WorkingHours[];
+}
+
+export interface WorkingTimeException {
+  from: string | number;
+  to?: string | number;
+  hours?: WorkingHours[];
+}
+
+export interface RowWorkingTime {
+  exceptions?: WorkingTimeException[];
+}
+
+export interface WorkingTime {
+  week?: WorkingWeek;
+  holidays?: (string | number)[];
+  exceptions?: WorkingTimeException[];
+}
+
 export interface Chart {
   time?: ChartTime;
   calendar?: ChartCalendar;
   grid?: ChartGrid;
   items?: Items;
+  workingTime?: WorkingTime;
   spacing?: number;
+  milestoneSize?: number;
 }
 
 export interface ClassNames {
@@ -0,0 +1,64 @@
+const test = require('node:test');
+const assert = require('assert');
+const Clipboard = require('../../src/plugins/Clipboard.plugin.ts').default;
+const ItemMovement = require('../../src/plugins/ItemMovement.plugin.ts').default;
+const { hour, createPlugin, prepareRows, item } = require('./helpers');
+
+function createClipboard(options = {}) {
+  const rows = { 1: { id: '1' }, 2: { id: '2' }, 3: { id: '3' } };
+  const items = {
+    a: item('a', 0, 2, undefined, '1'),
+    b: item('b', 3, 4, ['a'], '2'),
+    c: item('c', 20, 22, undefined, '3')
+  };
+  const selected = { 'chart-timeline-items-row-items': ['a', 'b'] };
+  const config = { list: { rows }, chart: { items }, plugin: { selection: { selected } } };
+  const clipboard = createPlugin(Clipboard, config, options);
+  ItemMovement()(clipboard);
+  prepareRows(clipboard);
+  // rows that can be copied and pasted to
+  clipboard.state.update('_internal.list.rowsWithParentsExpanded', Object.values(rows));
+  return clipboard;
+}
+
+function positions(items) {
+  return items.map(item => `${item.id} ${item.rowId}: ${item.time.start / hour} - ${(item.time.end + 1) / hour}`);
+}
+
+test('pasted items keep their time and row offsets and get new ids', () => {
+  const { plugin: clipboard, state, destroy } = createClipboard();
+  const data = clipboard.copy();
+  assert.deepStrictEqual(
+    data.items.map(entry => [entry.item.id, entry.rowOffset, entry.timeOffset]),
+    [
+      ['a', 0, 0],
+      ['b', 1, 3 * hour]
+    ]
+  );
+  const pasted = clipboard.paste(JSON.stringify(data), { rowId: '2', time: 10 * hour });
+  assert.deepStrictEqual(positions(pasted), ['a-copy-1 2: 10 - 12', 'b-copy-1 3: 13 - 14']);
+  assert.deepStrictEqual(pasted[1].linkedWith, ['a-copy-1'], 'dependencies between pasted items are kept');
+  const items = state.get('config.chart.items');
+  assert.deepStrictEqual(Object.keys(items), ['a', 'b', 'c', 'a-copy-1', 'b-copy-1']);
+  assert.deepStrictEqual(positions([items.a, items.b]), ['a 1: 0 - 2', 'b 2: 3 - 4'], 'copied items are not changed');
+  destroy();
+});
+
+test('nothing is pasted when any item collides', () => {
+  const collisions = [];
+  const { plugin: clipboard, state, destroy } = createClipboard({ onCollision: items => collisions.push(items) });
+  const data = clipboard.copy();
+  assert.strictEqual(clipboard.paste(data, { rowId: '2', time: 18 * hour }), false, 'b copy overlaps c');
+  assert.deepStrictEqual(positions(collisions[0]), ['a-copy-1 2: 18 - 20', 'b-copy-1 3: 21 - 22']);
+  assert.deepStrictEqual(Object.keys(state.get('config.chart.items')), ['a', 'b', 'c']);
+  destroy();
+});
+
+test('nothing is pasted when any item has no target row', () => {
+  const missing = [];
+  const { plugin: clipboard, state, destroy } = createClipboard({ onMissingRows: items => missing.push(...items) });
+  assert.strictEqual(clipboard.paste(clipboard.copy(), { rowId: '3', time: 0 }), false);
+  assert.deepStrictEqual(missing.map(item => item.id), ['b'], 'item below the last row is reported');
+  assert.deepStrictEqual(Object.keys(state.get('config.chart.items')), ['a', 'b', 'c']);
+  destroy();
+});
@@ -0,0 +1,50 @@
+const test = require('node:test');
+const assert = require('assert');
+const ContextMenu = require('../../src/plugins/ContextMenu.plugin.ts').default;
+const { createPlugin } = require('./helpers');
+
+function createContextMenu(menu) {
+  const config = { list: { rows: { 1: { id: '1' } } } };
+  const contextMenu = createPlugin(ContextMenu, config, { menus: { 'list-row': menu } });
+  const { state, api } = contextMenu;
+  const main = document.createElement('div');
+  document.body.appendChild(main);
+  state.update('_internal.elements.main', main);
+  const logs = [];
+  api.log = (...args) => logs.push(args);
+  // open menu like right click on the list row
+  const ListRowMenuAction = state.get('config.actions.list-column-row')[0];
+  const listRow = document.createElement('div');
+  new ListRowMenuAction(listRow, { rowId: '1' });
+  listRow.dispatchEvent(new MouseEvent('contextmenu'));
+  const menus = () => main.querySelectorAll('.' + api.getClass('context-menu'));
+  return { ...contextMenu, main, menus, logs };
+}
+
+function tick() {
+  return new Promise(resolve => setTimeout(resolve));
+}
+
+test('menu is closed when its items provider rejects', async () => {
+  const { menus, logs, destroy } = createContextMenu(() => Promise.reject(new Error('offline')));
+  assert.strictEqual(menus().length, 1, 'loading menu is shown');
+  await tick();
+  assert.strictEqual(menus().length, 0);
+  assert.strictEqual(logs[0][1].message, 'offline');
+  destroy();
+});
+
+test('only submenu is closed when its items provider rejects', async () => {
+  const { menus, logs, destroy } = createContextMenu([
+    { label: 'Assign', items: () => Promise.reject(new Error('offline')) },
+    { label: 'Other' }
+  ]);
+  assert.strictEqual(menus().length, 1);
+  menus()[0].firstChild.dispatchEvent(new MouseEvent('mouseenter'));
+  assert.strictEqual(menus().length, 2, 'loading submenu is shown');
+  await tick();
+  assert.strictEqual(menus().length, 1, 'parent menu stays open');
+  assert.strictEqual(menus()[0].textContent, 'AssignOther');
+  assert.strictEqual(logs.length, 1);
+  destroy();
+});
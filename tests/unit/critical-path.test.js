@@ -0,0 +1,44 @@
+const test = require('node:test');
+const assert = require('assert');
+const DependenciesApi = require('../../src/api/Dependencies.ts').default;
+const { hour, item } = require('./helpers');
+
+test('longest chain is critical and parallel item has float', () => {
+  // a -> b -> d is 6 hours long, a -> c -> d only 4
+  const items = {
+    a: item('a', 0, 2),
+    b: item('b', 2, 5, ['a']),
+    c: item('c', 2, 3, ['a']),
+    d: item('d', 5, 6, ['b', 'c'])
+  };
+  const result = new DependenciesApi().getCriticalPath(items);
+  assert.deepStrictEqual(result.cycle, []);
+  assert.deepStrictEqual(result.criticalPath, ['a', 'b', 'd']);
+  assert.strictEqual(result.projectFinish, 6 * hour - 1);
+  assert.strictEqual(result.items.c.critical, false);
+  assert.strictEqual(result.items.c.totalFloat, 2 * hour);
+  assert.strictEqual(result.items.c.latestStart, 4 * hour);
+});
+
+test('items are scheduled after their predecessors', () => {
+  const items = { a: item('a', 0, 4), b: item('b', 1, 2, ['a']) };
+  const { items: schedule, criticalPath } = new DependenciesApi().getCriticalPath(items);
+  assert.strictEqual(schedule.b.earliestStart, 4 * hour);
+  assert.strictEqual(schedule.b.earliestFinish, 5 * hour - 1);
+  assert.deepStrictEqual(criticalPath, ['a', 'b']);
+});
+
+test('item that ends last without links is critical alone', () => {
+  const items = { a: item('a', 0, 1), b: item('b', 0, 3) };
+  const result = new DependenciesApi().getCriticalPath(items);
+  assert.deepStrictEqual(result.criticalPath, ['b']);
+  assert.strictEqual(result.items.a.totalFloat, 2 * hour);
+});
+
+test('cycle is returned instead of schedule', () => {
+  const items = { a: item('a', 0, 1, ['b']), b: item('b', 1, 2, ['a']) };
+  const result = new DependenciesApi().getCriticalPath(items);
+  assert.deepStrictEqual(result.cycle, ['a', 'b']);
+  assert.deepStrictEqual(result.criticalPath, []);
+  assert.deepStrictEqual(result.items, {});
+});
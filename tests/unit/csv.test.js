@@ -0,0 +1,79 @@
+const test = require('node:test');
+const assert = require('assert');
+const { createPlugin, time } = require('./helpers');
+const CSV = require('../../src/plugins/CSV.plugin.ts');
+
+const columns = { data: { label: { id: 'label', data: 'label', header: { content: 'Label' } } } };
+
+test('quoted values can contain separators, quotes and new lines', () => {
+  const records = CSV.parseCSV('\uFEFFa,"b,""c""",d\r\n"multi\nline",e\n\n', ',');
+  assert.deepStrictEqual(records, [
+    { line: 1, values: ['a', 'b,"c"', 'd'] },
+    { line: 2, values: ['multi\nline', 'e'] }
+  ]);
+});
+
+test('rows and items are exported and imported back', () => {
+  const rows = { 1: { id: '1', label: 'Team, "A"' }, 2: { id: '2', parentId: '1', label: 'Bob' } };
+  const itemTime = { start: time('2026-06-15'), end: time('2026-06-17') - 1 };
+  const items = { a: { id: 'a', rowId: '2', label: 'Task', time: itemTime, progress: 40 } };
+  const config = { list: { columns, rows }, chart: { items } };
+  const { plugin: csv, state } = createPlugin(CSV.default, config, { bom: false });
+  const rowsCSV = csv.exportRows();
+  const itemsCSV = csv.exportItems();
+  assert.strictEqual(rowsCSV, 'id,parentId,Label\r\n1,,"Team, ""A"""\r\n2,1,Bob\r\n');
+  assert.strictEqual(
+    itemsCSV,
+    'id,rowId,label,start,end,progress\r\na,2,Task,2026-06-15 00:00,2026-06-17 00:00,40\r\n'
+  );
+  state.update('config.list.rows', {});
+  state.update('config.chart.items', {});
+  const result = csv.import(rowsCSV, itemsCSV);
+  assert.deepStrictEqual(result.errors, []);
+  assert.deepStrictEqual(state.get('config.list.rows'), rows);
+  assert.deepStrictEqual(state.get('config.chart.items'), items);
+});
+
+test('formulas are escaped on export and unescaped on import', () => {
+  const rows = { 1: { id: '1', label: '=HYPERLINK("x")' }, 2: { id: '2', label: "'-1" }, 3: { id: '3', label: 'a-b' } };
+  const { plugin: csv, state } = createPlugin(CSV.default, { list: { columns, rows } }, { bom: false });
+  const rowsCSV = csv.exportRows();
+  assert.strictEqual(rowsCSV, 'id,parentId,Label\r\n1,,"\'=HYPERLINK(""x"")"\r\n2,,\'\'-1\r\n3,,a-b\r\n');
+  state.update('config.list.rows', {});
+  csv.import(rowsCSV);
+  assert.deepStrictEqual(state.get('config.list.rows'), rows);
+  const unescaped = createPlugin(CSV.default, { list: { columns, rows } }, { bom: false, escapeFormulas: false })
+    .plugin.exportRows();
+  assert.strictEqual(unescaped.split('\r\n')[1], '1,,"=HYPERLINK(""x"")"');
+});
+
+test('invalid files are reported with line and column and nothing is changed', () => {
+  const errors = [];
+  const { plugin: csv, state } = createPlugin(
+    CSV.default,
+    { list: { columns } },
+    { onImportError: current => errors.push(...current) }
+  );
+  const itemsCSV = [
+    'id,rowId,label,start,end,progress',
+    'a,1,A,2026-06-15 00:00,2026-06-14 00:00,',
+    'b,7,B,,,',
+    'c,1,C,2026-13-01 00:00,2026-06-14 00:00,',
+    'd,1,D,2026-06-15 00:00,2026-06-16 00:00,abc'
+  ].join('\n');
+  const result = csv.import('id,parentId,Label,Age\n1,,A\n1,,B\n2,9,C\n', itemsCSV);
+  assert.deepStrictEqual(result.errors, errors);
+  assert.deepStrictEqual(
+    errors.map(error => `${error.file}:${error.line}:${error.column} ${error.message}`),
+    [
+      "rows:1:Age Unknown column 'Age'",
+      "rows:3:id Duplicate row id '1'",
+      "rows:4:parentId Unknown parentId '9'",
+      'items:2:end End is before start',
+      "items:3:rowId Unknown rowId '7'",
+      "items:4:start Invalid start date '2026-13-01 00:00' (YYYY-MM-DD HH:mm)",
+      "items:5:progress Invalid progress 'abc' (0 - 100)"
+    ]
+  );
+  assert.deepStrictEqual(state.get('config.list.rows'), {});
+});
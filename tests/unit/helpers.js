@@ -0,0 +1,69 @@
+const dayjs = require('dayjs');
+const Api = require('../../src/api/Api.ts');
+
+const hour = 60 * 60 * 1000;
+const day = 24 * hour;
+
+/**
+ * State from config (merged with default config) and internal api like vido passed to plugins
+ * @param {object} config
+ * @returns {object} { state, api }
+ */
+function createVido(config = {}) {
+  const state = Api.default.stateFromConfig(config);
+  const api = Api.getInternalApi(state);
+  return { state, api };
+}
+
+/**
+ * Initialize plugin with its api
+ * @param {function} Plugin
+ * @param {object} config
+ * @param {object} options plugin options
+ * @returns {object} { plugin, state, api, destroy } where plugin is an api from options.getApi
+ */
+function createPlugin(Plugin, config = {}, options = {}) {
+  let plugin;
+  const vido = createVido(config);
+  const destroy = Plugin({ ...options, getApi: pluginApi => (plugin = pluginApi) })(vido);
+  return { plugin, state: vido.state, api: vido.api, destroy };
+}
+
+/**
+ * Fill rows internals (items of the rows) like Main component does
+ * @param {object} vido
+ */
+function prepareRows({ state, api }) {
+  const rows = api.fillEmptyRowValues(state.get('config.list.rows'));
+  api.makeTreeMap(Object.values(rows), Object.values(state.get('config.chart.items')));
+}
+
+/**
+ * Item lasting from start hour to end hour - end is inclusive (last millisecond) like items end
+ * @param {string} id
+ * @param {number} start
+ * @param {number} end
+ * @param {array} linkedWith
+ * @param {string} rowId
+ * @returns {object} item
+ */
+function item(id, start, end, linkedWith, rowId = '1') {
+  const result = { id, rowId, label: id, time: { start: start * hour, end: end * hour - 1 } };
+  if (linkedWith) result.linkedWith = linkedWith;
+  return result;
+}
+
+/**
+ * Local time in milliseconds
+ * @param {string} date 'YYYY-MM-DD HH:mm'
+ * @returns {number}
+ */
+function time(date) {
+  return dayjs(date).valueOf();
+}
+
+function format(milliseconds) {
+  return dayjs(milliseconds).format('YYYY-MM-DD HH:mm');
+}
+
+module.exports = { hour, day, createVido, createPlugin, prepareRows, item, time, format };
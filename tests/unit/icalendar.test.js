@@ -0,0 +1,148 @@
+const test = require('node:test');
+const assert = require('assert');
+const { createPlugin, time, format } = require('./helpers');
+const ICalendar = require('../../src/plugins/ICalendar.plugin.ts').default;
+
+const rows = { 1: { id: '1', label: 'Dev, team' }, 2: { id: '2', label: 'QA' } };
+
+// recurring events are expanded within chart time
+const config = { list: { rows }, chart: { time: { from: time('2026-06-01'), to: time('2026-09-30') } } };
+
+function calendar(...lines) {
+  return ['BEGIN:VCALENDAR', ...lines, 'END:VCALENDAR'].join('\r\n');
+}
+
+function starts(items) {
+  return Object.values(items)
+    .map(item => new Date(item.time.start).toISOString())
+    .sort();
+}
+
+test('exported items are parsed back', () => {
+  const items = {
+    a: { id: 'a', rowId: '1', label: 'All; day', time: { start: time('2026-06-15'), end: time('2026-06-17') - 1 } },
+    b: {
+      id: 'b',
+      rowId: '2',
+      label: 'Meeting',
+      time: { start: time('2026-06-15 10:00'), end: time('2026-06-15 11:30') - 1 }
+    }
+  };
+  const { plugin: iCalendar } = createPlugin(ICalendar, { ...config, chart: { ...config.chart, items } });
+  const ics = iCalendar.export();
+  assert.ok(ics.includes('\r\nDTSTART;VALUE=DATE:20260615\r\nDTEND;VALUE=DATE:20260617\r\n'));
+  assert.ok(ics.includes('\r\nSUMMARY:All\\; day\r\nCATEGORIES:Dev\\, team\r\n'));
+  const result = iCalendar.parse(ics);
+  assert.deepStrictEqual(result.errors, []);
+  assert.deepStrictEqual(result.items, items);
+});
+
+test('weekly rule with exception date and moved occurrence', () => {
+  const { plugin: iCalendar } = createPlugin(ICalendar, config);
+  const result = iCalendar.parse(
+    calendar(
+      'BEGIN:VEVENT',
+      'UID:standup@example.com',
+      'DTSTART:20260617T090000Z',
+      'DURATION:PT30M',
+      'RRULE:FREQ=WEEKLY;BYDAY=WE,FR;UNTIL=20260703T235959Z',
+      'EXDATE:20260619T090000Z',
+      'SUMMARY:Stand',
+      '  up',
+      'CATEGORIES:QA',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:standup@example.com',
+      'RECURRENCE-ID:20260624T090000Z',
+      'DTSTART:20260624T110000Z',
+      'DTEND:20260624T113000Z',
+      'SUMMARY:Moved',
+      'CATEGORIES:QA',
+      'END:VEVENT'
+    )
+  );
+  assert.deepStrictEqual(result.errors, []);
+  assert.deepStrictEqual(starts(result.items), [
+    '2026-06-17T09:00:00.000Z',
+    '2026-06-24T11:00:00.000Z',
+    '2026-06-26T09:00:00.000Z',
+    '2026-07-01T09:00:00.000Z',
+    '2026-07-03T09:00:00.000Z'
+  ]);
+  const moved = result.items[`standup@example-com-${Date.UTC(2026, 5, 24, 9)}`];
+  assert.strictEqual(moved.label, 'Moved');
+  assert.strictEqual(moved.time.end, Date.UTC(2026, 5, 24, 11, 30) - 1);
+  assert.strictEqual(result.items[`standup@example-com-${Date.UTC(2026, 5, 17, 9)}`].label, 'Stand up');
+  assert.ok(Object.values(result.items).every(item => item.rowId === '2'));
+});
+
+test('monthly rule by weekday of all day event', () => {
+  const { plugin: iCalendar } = createPlugin(ICalendar, config);
+  const result = iCalendar.parse(
+    calendar(
+      'BEGIN:VEVENT',
+      'UID:review',
+      'DTSTART;VALUE=DATE:20260629',
+      'RRULE:FREQ=MONTHLY;BYDAY=-1MO;COUNT=3',
+      'CATEGORIES:Dev\\, team',
+      'END:VEVENT'
+    )
+  );
+  assert.deepStrictEqual(result.errors, []);
+  const items = Object.values(result.items).sort((a, b) => a.time.start - b.time.start);
+  assert.deepStrictEqual(
+    items.map(item => `${format(item.time.start)} - ${format(item.time.end + 1)}`),
+    [
+      '2026-06-29 00:00 - 2026-06-30 00:00',
+      '2026-07-27 00:00 - 2026-07-28 00:00',
+      '2026-08-31 00:00 - 2026-09-01 00:00'
+    ]
+  );
+  assert.ok(items.every(item => item.rowId === '1'));
+});
+
+test('time zone of the event is applied', () => {
+  const { plugin: iCalendar } = createPlugin(ICalendar, config);
+  const result = iCalendar.parse(
+    calendar(
+      'BEGIN:VEVENT',
+      'UID:call',
+      'DTSTART;TZID=Europe/Warsaw:20260615T090000',
+      'DTEND;TZID=Europe/Warsaw:20260615T100000',
+      'CATEGORIES:QA',
+      'END:VEVENT'
+    )
+  );
+  assert.deepStrictEqual(result.errors, []);
+  // summer time in Warsaw is UTC+2
+  const expected = { start: Date.UTC(2026, 5, 15, 7), end: Date.UTC(2026, 5, 15, 8) - 1 };
+  assert.deepStrictEqual(result.items.call.time, expected);
+});
+
+test('invalid events are reported with line and nothing is imported', () => {
+  const errors = [];
+  const { plugin: iCalendar, state } = createPlugin(ICalendar, config, {
+    onImportError: current => errors.push(...current)
+  });
+  const result = iCalendar.import(
+    calendar(
+      'BEGIN:VEVENT',
+      'UID:x',
+      'DTSTART;VALUE=DATE:20260610',
+      'DTEND;VALUE=DATE:20260601',
+      'CATEGORIES:QA',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:y',
+      'DTSTART:2026',
+      'CATEGORIES:Ops',
+      'END:VEVENT'
+    )
+  );
+  assert.deepStrictEqual(result.errors, errors);
+  assert.deepStrictEqual(
+    errors.map(error => `${error.line} ${error.message}`),
+    ['5 End is before start', "11 Unknown row 'Ops'"]
+  );
+  assert.deepStrictEqual(state.get('config.chart.items'), {});
+});
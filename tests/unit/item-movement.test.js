@@ -0,0 +1,81 @@
+const test = require('node:test');
+const assert = require('assert');
+const ItemMovement = require('../../src/plugins/ItemMovement.plugin.ts').default;
+const { hour, createVido, prepareRows, item } = require('./helpers');
+
+function createItemMovement(items, options = {}) {
+  const rows = { 1: { id: '1' }, 2: { id: '2' }, 3: { id: '3' } };
+  const vido = createVido({ list: { rows }, chart: { items } });
+  ItemMovement(options)(vido);
+  prepareRows(vido);
+  return {
+    ...vido,
+    moveItem: vido.state.get('_internal.plugin.ItemMovement.moveItem'),
+    moveGroup: vido.state.get('_internal.plugin.ItemMovement.moveGroup')
+  };
+}
+
+function change(rowId, start, end) {
+  return { rowId, time: { start: start * hour, end: end * hour - 1 } };
+}
+
+function positions(state) {
+  const result = {};
+  const items = state.get('config.chart.items');
+  for (const id in items) {
+    result[id] = `${items[id].rowId}: ${items[id].time.start / hour} - ${(items[id].time.end + 1) / hour}`;
+  }
+  return result;
+}
+
+test('item moved to other row follows collision rules and reschedules dependent items', () => {
+  const items = {
+    a: item('a', 0, 2, undefined, '1'),
+    b: item('b', 2, 3, ['a'], '1'),
+    c: item('c', 4, 6, undefined, '2')
+  };
+  const { state, moveItem } = createItemMovement(items);
+  assert.strictEqual(moveItem('a', '2', 3 * hour, true), null, 'a would overlap c');
+  assert.deepStrictEqual(positions(state), { a: '1: 0 - 2', b: '1: 2 - 3', c: '2: 4 - 6' });
+  assert.deepStrictEqual(moveItem('a', '2', 1 * hour, true), { start: 1 * hour, end: 3 * hour - 1 });
+  assert.deepStrictEqual(positions(state), { a: '2: 1 - 3', b: '1: 3 - 4', c: '2: 4 - 6' });
+});
+
+test('group is moved to new rows and times at once', () => {
+  const items = { a: item('a', 0, 2, undefined, '1'), b: item('b', 0, 2, undefined, '2') };
+  const { state, moveGroup } = createItemMovement(items);
+  assert.strictEqual(moveGroup({ a: change('2', 1, 3), b: change('3', 1, 3) }), true);
+  assert.deepStrictEqual(positions(state), { a: '2: 1 - 3', b: '3: 1 - 3' });
+});
+
+test('whole group is rejected when any member collides', () => {
+  const items = {
+    a: item('a', 0, 2, undefined, '1'),
+    b: item('b', 0, 2, undefined, '2'),
+    c: item('c', 4, 6, undefined, '2')
+  };
+  const { state, moveGroup } = createItemMovement(items);
+  const before = positions(state);
+  assert.strictEqual(moveGroup({ a: change('1', 3, 5), b: change('2', 3, 5) }), false);
+  assert.deepStrictEqual(positions(state), before, 'member without collision is not moved either');
+  assert.strictEqual(moveGroup({ a: change('3', 0, 2), b: change('3', 1, 3) }), false, 'members collide together');
+  assert.deepStrictEqual(positions(state), before);
+  assert.strictEqual(moveGroup({ a: change('2', 2, 4), b: change('3', 2, 4) }), true, 'moved member frees its place');
+  assert.deepStrictEqual(positions(state), { a: '2: 2 - 4', b: '3: 2 - 4', c: '2: 4 - 6' });
+});
+
+test('group is rejected when rescheduled dependent item collides', () => {
+  const items = {
+    a: item('a', 0, 2, undefined, '1'),
+    b: item('b', 0, 2, undefined, '2'),
+    c: item('c', 2, 3, ['b'], '3'),
+    d: item('d', 4, 6, undefined, '3')
+  };
+  const vido = createItemMovement(items, { reschedule: 'push' });
+  const { state, moveGroup } = vido;
+  assert.strictEqual(moveGroup({ a: change('1', 1, 3), b: change('2', 1, 3) }), true);
+  assert.strictEqual(positions(state).c, '3: 3 - 4', 'dependent item is pushed');
+  prepareRows(vido);
+  assert.strictEqual(moveGroup({ a: change('1', 3, 5), b: change('2', 3, 5) }), false, 'pushed item would overlap d');
+  assert.strictEqual(positions(state).a, '1: 1 - 3');
+});
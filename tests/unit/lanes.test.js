@@ -0,0 +1,37 @@
+const test = require('node:test');
+const assert = require('assert');
+const { createVido, prepareRows, item } = require('./helpers');
+
+test('rows are stacked by list option or individually', () => {
+  const rows = { 1: { id: '1' }, 2: { id: '2', stacking: true } };
+  const { api } = createVido({ list: { rows } });
+  assert.strictEqual(api.isRowStacked(rows[1]), false);
+  assert.strictEqual(api.isRowStacked(rows[2]), true);
+  const stacked = createVido({ list: { stacking: true, rows: { 1: { id: '1' }, 2: { id: '2', stacking: false } } } });
+  assert.strictEqual(stacked.api.isRowStacked(stacked.state.get('config.list.rows.1')), true);
+  assert.strictEqual(stacked.api.isRowStacked(stacked.state.get('config.list.rows.2')), false);
+});
+
+test('overlapping items are placed in the first free lane', () => {
+  const items = { a: item('a', 0, 2), b: item('b', 1, 3), c: item('c', 2, 4), d: item('d', 3, 5), e: item('e', 1, 5) };
+  const vido = createVido({ list: { stacking: true, rows: { 1: { id: '1' } } }, chart: { items } });
+  prepareRows(vido);
+  const { state, api } = vido;
+  const row = state.get('config.list.rows.1');
+  const lanes = api.calculateRowLanes(row);
+  assert.deepStrictEqual(lanes, { a: 0, b: 1, e: 2, c: 0, d: 1 }, 'item that starts when other ends shares its lane');
+  assert.strictEqual(api.getStackedRowHeight(row, lanes), 3 * 40);
+});
+
+test('stacked row height is lanes count multiplied by lane height', () => {
+  const items = { a: item('a', 0, 2), b: item('b', 1, 3) };
+  const rows = { 1: { id: '1', stacking: true, laneHeight: 30 }, 2: { id: '2', stacking: true } };
+  const vido = createVido({ list: { rows }, chart: { items } });
+  prepareRows(vido);
+  const { state, api } = vido;
+  const row = state.get('config.list.rows.1');
+  assert.strictEqual(api.getStackedRowHeight(row, api.calculateRowLanes(row)), 60);
+  const empty = state.get('config.list.rows.2');
+  assert.deepStrictEqual(api.calculateRowLanes(empty), {});
+  assert.strictEqual(api.getStackedRowHeight(empty, {}), 40, 'row without items has one lane');
+});
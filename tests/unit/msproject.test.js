@@ -0,0 +1,147 @@
+const test = require('node:test');
+const assert = require('assert');
+const { createPlugin, time, format } = require('./helpers');
+const MSProject = require('../../src/plugins/MSProject.plugin.ts').default;
+
+function project(...tasks) {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Project xmlns="http://schemas.microsoft.com/project">',
+    '<CalendarUID>1</CalendarUID>',
+    '<Calendars>',
+    '<Calendar><UID>1</UID><Name>Standard</Name><IsBaseCalendar>1</IsBaseCalendar><WeekDays>',
+    '<WeekDay><DayType>2</DayType><DayWorking>1</DayWorking><WorkingTimes>',
+    '<WorkingTime><FromTime>07:00:00</FromTime><ToTime>15:00:00</ToTime></WorkingTime>',
+    '</WorkingTimes></WeekDay>',
+    '<WeekDay><DayType>0</DayType><DayWorking>0</DayWorking><TimePeriod>',
+    '<FromDate>2026-12-24T00:00:00</FromDate><ToDate>2026-12-26T23:59:00</ToDate>',
+    '</TimePeriod></WeekDay>',
+    '</WeekDays></Calendar>',
+    '<Calendar><UID>2</UID><Name>Bob</Name><BaseCalendarUID>1</BaseCalendarUID><Exceptions><Exception>',
+    '<TimePeriod><FromDate>2026-06-22T00:00:00</FromDate><ToDate>2026-06-26T23:59:00</ToDate></TimePeriod>',
+    '<DayWorking>0</DayWorking>',
+    '</Exception></Exceptions></Calendar>',
+    '</Calendars>',
+    '<Tasks>',
+    '<Task><UID>0</UID><Name>Project</Name><OutlineLevel>0</OutlineLevel><Summary>1</Summary></Task>',
+    ...tasks,
+    '</Tasks>',
+    '</Project>'
+  ].join('\n');
+}
+
+const tasks = [
+  '<Task><UID>1</UID><Name>Phase &amp; 1</Name><OutlineLevel>1</OutlineLevel><Summary>1</Summary></Task>',
+  '<Task><UID>2</UID><Name>Design</Name><OutlineLevel>2</OutlineLevel><CalendarUID>2</CalendarUID>',
+  '<Start>2026-06-15T08:00:00</Start><Finish>2026-06-17T16:00:00</Finish><PercentComplete>40</PercentComplete></Task>',
+  '<Task><UID>7</UID><Name>Build</Name><OutlineLevel>2</OutlineLevel>',
+  '<Start>2026-06-18T08:00:00</Start><Finish>2026-06-19T16:00:00</Finish>',
+  '<PredecessorLink><PredecessorUID>2</PredecessorUID><Type>1</Type><LinkLag>4800</LinkLag></PredecessorLink></Task>',
+  '<Task><UID>4</UID><Name>Done</Name><OutlineLevel>1</OutlineLevel><Milestone>1</Milestone>',
+  '<Start>2026-06-19T16:00:00</Start><Finish>2026-06-19T16:00:00</Finish>',
+  '<PredecessorLink><PredecessorUID>7</PredecessorUID><Type>0</Type></PredecessorLink></Task>'
+];
+
+test('tasks are converted to rows, items, dependencies and working time', () => {
+  const { plugin: msProject } = createPlugin(MSProject);
+  const { rows, items, workingTime, errors } = msProject.parse(project(...tasks));
+  assert.deepStrictEqual(errors, []);
+  assert.deepStrictEqual(rows, {
+    1: { id: '1', label: 'Phase & 1', summary: true },
+    2: {
+      id: '2',
+      label: 'Design',
+      parentId: '1',
+      workingTime: { exceptions: [{ from: '2026-06-22', to: '2026-06-26' }] }
+    },
+    7: { id: '7', label: 'Build', parentId: '1' },
+    4: { id: '4', label: 'Done' }
+  });
+  assert.strictEqual(items[2].progress, 40);
+  assert.strictEqual(format(items[2].time.start), '2026-06-15 08:00');
+  assert.strictEqual(format(items[2].time.end + 1), '2026-06-17 16:00');
+  assert.deepStrictEqual(items[7].linkedWith, [{ id: '2', type: 'FS', lag: 8 * 60 * 60 * 1000 }]);
+  assert.deepStrictEqual(items[4].linkedWith, [{ id: '7', type: 'FF', lag: 0 }]);
+  assert.strictEqual(items[4].type, 'milestone');
+  // week days missing in the file are the same as without calendar
+  assert.deepStrictEqual(workingTime.week[1], [{ from: '07:00', to: '15:00' }]);
+  assert.deepStrictEqual(workingTime.week[2], [{ from: '08:00', to: '16:00' }]);
+  assert.deepStrictEqual(workingTime.week[0], []);
+  assert.deepStrictEqual(workingTime.exceptions, [{ from: '2026-12-24', to: '2026-12-26' }]);
+});
+
+test('imported file is exported with the same tasks', () => {
+  const { plugin: msProject, state } = createPlugin(MSProject);
+  const imported = msProject.import(project(...tasks));
+  const exported = msProject.parse(msProject.export());
+  assert.deepStrictEqual(exported.errors, []);
+  assert.deepStrictEqual(exported.rows, imported.rows);
+  assert.deepStrictEqual(exported.items, imported.items);
+  assert.deepStrictEqual(exported.workingTime, state.get('config.chart.workingTime'));
+});
+
+test('every item is one task and rows without items are not exported', () => {
+  const day = (date, id, rowId, label) => ({
+    id,
+    rowId,
+    label,
+    time: { start: time(`${date} 08:00`), end: time(`${date} 16:00`) - 1 }
+  });
+  const { plugin: msProject } = createPlugin(MSProject, {
+    list: {
+      rows: {
+        alice: { id: 'alice', label: 'Alice' },
+        group: { id: 'group', label: 'Group', summary: true },
+        empty: { id: 'empty', label: 'Empty', parentId: 'group' },
+        carol: { id: 'carol', label: 'Carol', parentId: 'group' }
+      }
+    },
+    chart: {
+      items: {
+        second: { ...day('2026-06-17', 'second', 'alice', 'Second'), linkedWith: ['first'] },
+        first: day('2026-06-15', 'first', 'alice', 'First'),
+        5: day('2026-06-16', '5', 'carol', 'Review')
+      }
+    }
+  });
+  const xml = msProject.export();
+  assert.strictEqual(msProject.export(), xml, 'the same data is exported with the same UIDs');
+  const { rows, items, errors } = msProject.parse(xml);
+  assert.deepStrictEqual(errors, []);
+  assert.deepStrictEqual(rows, {
+    5: { id: '5', label: 'Review', parentId: '6' },
+    6: { id: '6', label: 'Group', summary: true },
+    7: { id: '7', label: 'Second' },
+    8: { id: '8', label: 'First' }
+  });
+  assert.deepStrictEqual(Object.keys(items), ['5', '7', '8']);
+  assert.deepStrictEqual(items[7].linkedWith, [{ id: '8', type: 'FS', lag: 0 }]);
+  assert.strictEqual(/<Name>First<\/Name>[^]*<Name>Second<\/Name>[^]*<Name>Group<\/Name>/.test(xml), true);
+});
+
+test('invalid tasks are reported and nothing is imported', () => {
+  const errors = [];
+  const { plugin: msProject, state } = createPlugin(MSProject, {}, {
+    onImportError: current => errors.push(...current)
+  });
+  const result = msProject.import(
+    project(
+      '<Task><UID>1</UID><OutlineLevel>2</OutlineLevel></Task>',
+      '<Task><UID>2</UID><Start>2026-06-17T08:00:00</Start><Finish>2026-06-15T08:00:00</Finish></Task>',
+      '<Task><UID>3</UID><Start>2026-06-15T08:00:00</Start><Finish>2026-06-15T16:00:00</Finish>',
+      '<PredecessorLink><PredecessorUID>9</PredecessorUID></PredecessorLink></Task>',
+      '<Task><UID>3</UID></Task>'
+    )
+  );
+  assert.deepStrictEqual(result.errors, errors);
+  assert.deepStrictEqual(errors, [
+    { uid: '1', message: "Invalid outline level '2'" },
+    { uid: '2', message: 'Finish is before start' },
+    { uid: '3', message: "Duplicate task UID '3'" },
+    { uid: '3', message: "Unknown predecessor '9'" }
+  ]);
+  assert.deepStrictEqual(state.get('config.list.rows'), {});
+  assert.deepStrictEqual(msProject.parse('<html></html>').errors, [
+    { message: 'Invalid MSPDI xml - there is no Project element' }
+  ]);
+});
@@ -0,0 +1,32 @@
+// compile typescript sources (and es modules of dependencies like vido) on require
+// so unit tests can run them in node without build - dom is provided by jsdom
+const fs = require('fs');
+const ts = require('typescript');
+const { JSDOM } = require('jsdom');
+
+function compile(module, filename) {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    fileName: filename,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2017,
+      esModuleInterop: true
+    }
+  });
+  module._compile(outputText, filename);
+}
+
+const compileJS = require.extensions['.js'];
+require.extensions['.ts'] = compile;
+require.extensions['.js'] = function(module, filename) {
+  if (/\.esm\.js$/.test(filename)) return compile(module, filename);
+  return compileJS(module, filename);
+};
+
+const { window } = new JSDOM('<!DOCTYPE html><body></body>', { pretendToBeVisual: true });
+for (const name of ['window', 'document', 'navigator', 'DOMParser', 'Node', 'HTMLElement', 'Element', 'Event']) {
+  global[name] = name === 'window' ? window : window[name];
+}
+for (const name of ['KeyboardEvent', 'MouseEvent', 'getComputedStyle', 'requestAnimationFrame']) {
+  global[name] = window[name];
+}
@@ -0,0 +1,58 @@
+const test = require('node:test');
+const assert = require('assert');
+const DependenciesApi = require('../../src/api/Dependencies.ts').default;
+const { hour, item } = require('./helpers');
+
+function hours(time) {
+  return { start: time.start / hour, end: (time.end + 1) / hour };
+}
+
+test('successor is pushed after moved predecessor', () => {
+  const items = { a: item('a', 0, 2), b: item('b', 2, 4, ['a']), c: item('c', 10, 12, ['b']) };
+  const changed = { a: { start: 1 * hour, end: 3 * hour - 1 } };
+  const { times, cycle } = new DependenciesApi().reschedule(changed, 'push', items);
+  assert.deepStrictEqual(cycle, []);
+  assert.deepStrictEqual(hours(times.b), { start: 3, end: 5 });
+  assert.strictEqual(times.c, undefined, 'item with enough slack is not moved');
+});
+
+test('push-pull mode pulls successors back', () => {
+  const items = { a: item('a', 0, 2), b: item('b', 5, 6, ['a']) };
+  const api = new DependenciesApi();
+  const changed = { a: { start: 0, end: 1 * hour - 1 } };
+  assert.strictEqual(api.reschedule(changed, 'push', items).times.b, undefined);
+  assert.deepStrictEqual(hours(api.reschedule(changed, 'push-pull', items).times.b), { start: 1, end: 2 });
+});
+
+test('link types and lag', () => {
+  const api = new DependenciesApi();
+  const from = { start: 10 * hour, end: 12 * hour - 1 };
+  const duration = 3 * hour - 1;
+  const link = (type, lag = 0) => ({ fromId: 'a', toId: 'b', type, lag });
+  assert.strictEqual(api.getLinkStart(link('FS'), from, duration), 12 * hour);
+  assert.strictEqual(api.getLinkStart(link('FS', hour), from, duration), 13 * hour);
+  assert.strictEqual(api.getLinkStart(link('SS'), from, duration), 10 * hour);
+  assert.strictEqual(api.getLinkStart(link('FF'), from, duration), 9 * hour);
+  assert.strictEqual(api.getLinkStart(link('SF'), from, duration), 7 * hour + 1);
+});
+
+test('links from dependant and linkedWith are merged', () => {
+  const items = {
+    a: { ...item('a', 0, 1), dependant: ['b', { id: 'c', type: 'SS', lag: hour }] },
+    b: item('b', 1, 2, ['a']),
+    c: item('c', 1, 2)
+  };
+  const links = new DependenciesApi().getLinks(items);
+  assert.deepStrictEqual(links, [
+    { fromId: 'a', toId: 'b', type: 'FS', lag: 0 },
+    { fromId: 'a', toId: 'c', type: 'SS', lag: hour }
+  ]);
+});
+
+test('cycle is reported without changing times', () => {
+  const items = { a: item('a', 0, 1, ['c']), b: item('b', 1, 2, ['a']), c: item('c', 2, 3, ['b']) };
+  const changed = { a: { start: 1 * hour, end: 2 * hour - 1 } };
+  const { times, cycle } = new DependenciesApi().reschedule(changed, 'push', items);
+  assert.deepStrictEqual(cycle, ['a', 'b', 'c']);
+  assert.deepStrictEqual(times, changed);
+});
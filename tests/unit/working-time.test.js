@@ -0,0 +1,74 @@
+const test = require('node:test');
+const assert = require('assert');
+const { hour, createVido, time, format } = require('./helpers');
+
+function intervals(list) {
+  return list.map(interval => `${format(interval.start)} - ${format(interval.end)}`);
+}
+
+// 2026-06-15 is Monday
+test('all the time is working time without calendar', () => {
+  const { api } = createVido();
+  assert.strictEqual(api.workingTime.isEnabled(), false);
+  assert.strictEqual(api.workingTime.getWorkingDuration(time('2026-06-13'), time('2026-06-14')), 24 * hour);
+  assert.strictEqual(api.workingTime.addWorkingTime(time('2026-06-13'), hour), time('2026-06-13 01:00'));
+});
+
+test('default week is monday - friday 08:00 - 16:00', () => {
+  const { api } = createVido({ chart: { workingTime: {} } });
+  const { workingTime } = api;
+  assert.deepStrictEqual(intervals(workingTime.getWorkingIntervals(time('2026-06-19'), time('2026-06-23'))), [
+    '2026-06-19 08:00 - 2026-06-19 16:00',
+    '2026-06-22 08:00 - 2026-06-22 16:00'
+  ]);
+  assert.strictEqual(format(workingTime.nextWorkingTime(time('2026-06-19 17:00'))), '2026-06-22 08:00');
+  assert.strictEqual(format(workingTime.previousWorkingTime(time('2026-06-22 07:00'))), '2026-06-19 16:00');
+  assert.strictEqual(format(workingTime.addWorkingTime(time('2026-06-19 14:00'), 4 * hour)), '2026-06-22 10:00');
+});
+
+test('holidays and exceptions replace week days', () => {
+  const { api } = createVido({
+    chart: {
+      workingTime: {
+        holidays: ['2026-06-16'],
+        exceptions: [{ from: '2026-06-17', to: '2026-06-18', hours: [{ from: '10:00', to: '12:00' }] }]
+      }
+    }
+  });
+  assert.strictEqual(api.workingTime.isWorkingTime(time('2026-06-16 09:00')), false);
+  assert.strictEqual(api.workingTime.getWorkingDuration(time('2026-06-15'), time('2026-06-20')), 20 * hour);
+});
+
+test('row exceptions are added to calendar', () => {
+  const { api } = createVido({
+    list: { rows: { 1: { id: '1', workingTime: { exceptions: [{ from: '2026-06-15', to: '2026-06-19' }] } } } },
+    chart: { workingTime: {} }
+  });
+  assert.strictEqual(api.workingTime.getWorkingDuration(time('2026-06-15'), time('2026-06-20'), '1'), 0);
+  assert.strictEqual(api.workingTime.getWorkingDuration(time('2026-06-15'), time('2026-06-20')), 40 * hour);
+  const item = { id: '1', rowId: '1', time: { start: time('2026-06-22'), end: time('2026-06-23') - 1 } };
+  assert.strictEqual(api.workingTime.getItemWorkingDuration(item), 8 * hour);
+});
+
+test('night shift is split at midnight', () => {
+  const { api } = createVido({ chart: { workingTime: { week: { 1: [{ from: '22:00', to: '06:00' }] } } } });
+  const { workingTime } = api;
+  assert.deepStrictEqual(intervals(workingTime.getWorkingIntervals(time('2026-06-15'), time('2026-06-17'))), [
+    '2026-06-15 22:00 - 2026-06-16 06:00'
+  ]);
+  assert.strictEqual(workingTime.isWorkingTime(time('2026-06-16 03:00')), true);
+  assert.strictEqual(format(workingTime.nextWorkingTime(time('2026-06-16 07:00'))), '2026-06-22 22:00');
+  assert.strictEqual(format(workingTime.addWorkingTime(time('2026-06-15 23:00'), 6 * hour)), '2026-06-16 05:00');
+  assert.strictEqual(format(workingTime.previousWorkingTime(time('2026-06-16 12:00'))), '2026-06-16 06:00');
+});
+
+test('calendar changes are applied and subscriptions are removed on destroy', () => {
+  const { state, api } = createVido({ chart: { workingTime: {} } });
+  assert.strictEqual(api.workingTime.isWorkingTime(time('2026-06-15 07:00')), false);
+  state.update('config.chart.workingTime.week', { 1: [{ from: '06:00', to: '14:00' }] });
+  assert.strictEqual(api.workingTime.isWorkingTime(time('2026-06-15 07:00')), true);
+  api.workingTime.destroy();
+  // rules are cached until the calendar changes - without subscription the change is not noticed
+  state.update('config.chart.workingTime.week', { 1: [] });
+  assert.strictEqual(api.workingTime.isWorkingTime(time('2026-06-15 07:00')), true);
+});
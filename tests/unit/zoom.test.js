@@ -0,0 +1,54 @@
+const test = require('node:test');
+const assert = require('assert');
+const { day, createVido, time } = require('./helpers');
+
+// chart time after zoom - Main component computes timePerPixel as 2 ^ zoom
+function chartTime(zoom, finalFrom, scrollLeft = 0) {
+  const timePerPixel = Math.pow(2, zoom);
+  return { zoom, timePerPixel, finalFrom, leftGlobal: finalFrom + scrollLeft * timePerPixel };
+}
+
+test('zoom for range fills the width', () => {
+  const { api } = createVido();
+  const from = time('2026-06-01');
+  const to = from + 30 * day;
+  const zoom = api.time.getZoomForRange(from, to, 1000);
+  assert.ok(Math.abs(Math.pow(2, zoom) * 1000 - 30 * day) < 1e-3);
+  assert.strictEqual(api.time.getZoomForRange(0, 2048, 1024), 1);
+  assert.strictEqual(api.time.getZoomForRange(0, 1024, 2048), -1);
+});
+
+test('time under the anchor stays in place after zoom', () => {
+  const { api } = createVido();
+  const finalFrom = time('2026-06-01');
+  const before = chartTime(20, finalFrom, 300);
+  const anchorX = 250;
+  const anchorTime = api.time.viewPixelOffsetToGlobalTime(anchorX, before);
+  assert.strictEqual(anchorTime, finalFrom + 550 * Math.pow(2, 20));
+  for (const zoom of [17, 19, 21, 23.5]) {
+    const zoomed = chartTime(zoom, finalFrom);
+    const scrollLeft = api.time.getAnchoredScrollLeft(anchorTime, anchorX, zoomed);
+    const after = chartTime(zoom, finalFrom, scrollLeft);
+    assert.ok(Math.abs(api.time.viewPixelOffsetToGlobalTime(anchorX, after) - anchorTime) < 1e-3, `zoom ${zoom}`);
+  }
+});
+
+test('range start is at the left side when zoomed to range', () => {
+  const { api } = createVido();
+  const finalFrom = time('2026-06-01');
+  const from = finalFrom + 10 * day;
+  const to = from + 7 * day;
+  const zoom = api.time.getZoomForRange(from, to, 700);
+  const zoomed = chartTime(zoom, finalFrom);
+  const scrollLeft = api.time.getAnchoredScrollLeft(from, 0, zoomed);
+  const after = chartTime(zoom, finalFrom, scrollLeft);
+  assert.ok(Math.abs(after.leftGlobal - from) < 1e-3);
+  assert.ok(Math.abs(api.time.viewPixelOffsetToGlobalTime(700, after) - to) < 1e-3);
+});
+
+test('time at view pixel is read from chart time by default', () => {
+  const { state, api } = createVido();
+  state.update('_internal.chart.time', chartTime(10, 0, 5));
+  assert.strictEqual(api.time.viewPixelOffsetToGlobalTime(3), 8 * 1024);
+  assert.strictEqual(api.time.globalTimeToViewPixelOffset(8 * 1024), 3);
+});